@@ -0,0 +1,190 @@
+// Stand-in for a protected MCP server and its authorization server, for trying
+// the OAuth flow locally. Every authorization request is approved at once.
+//
+//   npm run mock:oauth            then connect to http://localhost:3400/mcp
+//
+// PORT             port to listen on (default 3400)
+// TOKEN_LIFETIME   access token lifetime in seconds (default 60, short so refreshes show up)
+
+import { createHash, randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT || 3400);
+const tokenLifetime = Number(process.env.TOKEN_LIFETIME || 60);
+const base = `http://localhost:${port}`;
+const resource = `${base}/mcp`;
+const resourceMetadataUrl = `${base}/.well-known/oauth-protected-resource/mcp`;
+
+const clients = new Map();
+const codes = new Map();
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+const token = () => randomBytes(24).toString("base64url");
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function oauthError(res, status, error, description) {
+  send(res, status, { error, error_description: description });
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+}
+
+function issueTokens(clientId, scope) {
+  const accessToken = token();
+  const refreshToken = token();
+  accessTokens.set(accessToken, { clientId, scope, expiresAt: Date.now() + tokenLifetime * 1000 });
+  refreshTokens.set(refreshToken, { clientId, scope });
+  return { access_token: accessToken, token_type: "Bearer", expires_in: tokenLifetime, refresh_token: refreshToken, scope };
+}
+
+function authorize(res, url) {
+  const params = url.searchParams;
+  const client = clients.get(params.get("client_id"));
+  const redirectUri = params.get("redirect_uri");
+  if (!client || !client.redirect_uris.includes(redirectUri)) {
+    return oauthError(res, 400, "invalid_request", "Unknown client or redirect_uri");
+  }
+
+  const redirect = new URL(redirectUri);
+  redirect.searchParams.set("state", params.get("state") || "");
+  if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+    redirect.searchParams.set("error", "invalid_request");
+    redirect.searchParams.set("error_description", "PKCE with S256 is required");
+  } else if (params.get("resource") !== resource) {
+    redirect.searchParams.set("error", "invalid_target");
+    redirect.searchParams.set("error_description", `resource must be ${resource}`);
+  } else {
+    const code = token();
+    codes.set(code, {
+      clientId: client.client_id,
+      redirectUri,
+      challenge: params.get("code_challenge"),
+      scope: params.get("scope") || "mcp"
+    });
+    redirect.searchParams.set("code", code);
+  }
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+function exchange(res, form) {
+  if (form.get("grant_type") === "authorization_code") {
+    const grant = codes.get(form.get("code"));
+    codes.delete(form.get("code"));
+    if (!grant || grant.clientId !== form.get("client_id") || grant.redirectUri !== form.get("redirect_uri")) {
+      return oauthError(res, 400, "invalid_grant", "Unknown or reused code");
+    }
+    const challenge = createHash("sha256").update(form.get("code_verifier") || "").digest("base64url");
+    if (challenge !== grant.challenge) {
+      return oauthError(res, 400, "invalid_grant", "code_verifier does not match the challenge");
+    }
+    return send(res, 200, issueTokens(grant.clientId, grant.scope));
+  }
+
+  if (form.get("grant_type") === "refresh_token") {
+    const grant = refreshTokens.get(form.get("refresh_token"));
+    refreshTokens.delete(form.get("refresh_token"));
+    if (!grant || grant.clientId !== form.get("client_id")) {
+      return oauthError(res, 400, "invalid_grant", "Unknown refresh token");
+    }
+    return send(res, 200, issueTokens(grant.clientId, grant.scope));
+  }
+
+  oauthError(res, 400, "unsupported_grant_type", form.get("grant_type") || "missing grant_type");
+}
+
+// Just enough MCP to see an authorized session work
+function answer(message) {
+  if (message.id === undefined) return null;
+  switch (message.method) {
+    case "initialize":
+      return {
+        protocolVersion: message.params?.protocolVersion || "2025-06-18",
+        capabilities: { tools: {} },
+        serverInfo: { name: "mock-oauth-server", version: "0.1.0" }
+      };
+    case "tools/list":
+      return { tools: [{ name: "whoami", description: "Reports the authorized client", inputSchema: { type: "object" } }] };
+    case "ping":
+      return {};
+  }
+  return undefined;
+}
+
+async function mcp(req, res) {
+  const bearer = (req.headers.authorization || "").match(/^Bearer (.+)$/i)?.[1];
+  const grant = bearer && accessTokens.get(bearer);
+  if (!grant || grant.expiresAt < Date.now()) {
+    return send(res, 401, { error: "invalid_token" }, {
+      "WWW-Authenticate": `Bearer resource_metadata="${resourceMetadataUrl}"${grant ? ', error="invalid_token"' : ""}`
+    });
+  }
+  if (req.method !== "POST") {
+    return send(res, 405, undefined);
+  }
+
+  const message = JSON.parse(await readBody(req));
+  const result = message.method === "tools/call"
+    ? { content: [{ type: "text", text: `client ${grant.clientId}, scope ${grant.scope}` }] }
+    : answer(message);
+  if (result === null) return send(res, 202, undefined);
+  send(res, 200, result === undefined
+    ? { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }
+    : { jsonrpc: "2.0", id: message.id, result }
+  );
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Expose-Headers", "WWW-Authenticate, Mcp-Session-Id");
+  if (req.method === "OPTIONS") return send(res, 204, undefined);
+
+  const url = new URL(req.url, base);
+  console.log(req.method, url.pathname);
+  try {
+    switch (url.pathname) {
+      case "/.well-known/oauth-protected-resource/mcp":
+        return send(res, 200, { resource, authorization_servers: [base], scopes_supported: ["mcp"] });
+      case "/.well-known/oauth-authorization-server":
+        return send(res, 200, {
+          issuer: base,
+          authorization_endpoint: `${base}/authorize`,
+          token_endpoint: `${base}/token`,
+          registration_endpoint: `${base}/register`,
+          response_types_supported: ["code"],
+          grant_types_supported: ["authorization_code", "refresh_token"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["none"]
+        });
+      case "/register": {
+        const metadata = JSON.parse(await readBody(req));
+        const client = { ...metadata, client_id: `client-${token().slice(0, 8)}`, client_id_issued_at: Math.floor(Date.now() / 1000) };
+        clients.set(client.client_id, client);
+        return send(res, 201, client);
+      }
+      case "/authorize":
+        return authorize(res, url);
+      case "/token":
+        return exchange(res, new URLSearchParams(await readBody(req)));
+      case "/mcp":
+        return mcp(req, res);
+    }
+    send(res, 404, { error: "not_found" });
+  } catch (err) {
+    send(res, 500, { error: "server_error", error_description: String(err) });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock MCP server with OAuth at ${resource}`);
+});
@@ -0,0 +1,142 @@
+import {
+  PROXY_ERROR_HEADER,
+  PROXY_HEADER_PREFIX,
+  ProxyPolicy,
+  checkProxyTarget,
+  isDeniedAddress,
+  parseHostList
+} from "@/lib/proxy";
+import { lookup } from "node:dns/promises";
+
+// Relays requests from the browser to MCP endpoints that it cannot reach
+// directly (CORS, forbidden headers) and streams the answer back unbuffered.
+//
+// MCP_PROXY_ALLOW  comma-separated hosts the proxy may reach, e.g. "mcp.internal:8080,*.example.com"
+// MCP_PROXY_DENY   comma-separated hosts it must never reach; checked first
+//
+// Without MCP_PROXY_ALLOW the proxy only relays in development. The denylist is
+// also checked against what the hostname resolves to, but DNS can change between
+// that check and the request, so production deployments should use an allowlist.
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_DENY = ["169.254.169.254", "metadata.google.internal"];
+
+// Headers describing the browser-to-proxy hop that must not reach upstream
+const STRIPPED_REQUEST_HEADERS = [
+  "host",
+  "connection",
+  "content-length",
+  "cookie",
+  "origin",
+  "referer",
+  "accept-encoding",
+  "transfer-encoding"
+];
+
+// fetch has already decoded the body, so the framing headers no longer apply.
+// An upstream error marker must not pass for one raised by the proxy itself.
+const STRIPPED_RESPONSE_HEADERS = [
+  PROXY_ERROR_HEADER.toLowerCase(),
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "set-cookie",
+  "transfer-encoding"
+];
+
+function proxyPolicy(): ProxyPolicy {
+  return {
+    allow: parseHostList(process.env.MCP_PROXY_ALLOW),
+    deny: [...DEFAULT_DENY, ...parseHostList(process.env.MCP_PROXY_DENY)],
+    allowAllByDefault: process.env.NODE_ENV === "development"
+  };
+}
+
+function proxyError(status: number, message: string): Response {
+  return new Response(message, {
+    status,
+    headers: { "Content-Type": "text/plain", [PROXY_ERROR_HEADER]: "1" }
+  });
+}
+
+function upstreamHeaders(request: Request): Headers {
+  const headers = new Headers();
+  const prefix = PROXY_HEADER_PREFIX.toLowerCase();
+  request.headers.forEach((value, name) => {
+    if (name.startsWith(prefix)) {
+      headers.set(name.substring(prefix.length), value);
+    } else if (!STRIPPED_REQUEST_HEADERS.includes(name) && !name.startsWith("sec-") && !name.startsWith("x-forwarded-")) {
+      headers.set(name, value);
+    }
+  });
+  return headers;
+}
+
+// A name pointing at a denied address, e.g. the metadata endpoint, is denied too
+async function resolveDeniedAddress(hostname: string, policy: ProxyPolicy): Promise<string | null> {
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[(.*)\]$/, "$1"), { all: true });
+  } catch {
+    // Unresolvable: the upstream fetch fails and reports it
+    return null;
+  }
+  return addresses.find(({ address }) => isDeniedAddress(address, policy))?.address ?? null;
+}
+
+async function relay(request: Request): Promise<Response> {
+  const target = new URL(request.url).searchParams.get("url");
+  if (!target) {
+    return proxyError(400, "Missing url parameter");
+  }
+
+  const policy = proxyPolicy();
+  const rejection = checkProxyTarget(target, policy);
+  if (rejection) {
+    return proxyError(403, rejection);
+  }
+  const deniedAddress = await resolveDeniedAddress(new URL(target).hostname, policy);
+  if (deniedAddress) {
+    return proxyError(403, `Host ${new URL(target).host} resolves to ${deniedAddress}, which is on the proxy denylist`);
+  }
+
+  // Stream the request body through instead of buffering it; Node's fetch
+  // requires half duplex for a ReadableStream body (missing from the DOM types)
+  const init: RequestInit & { duplex: "half" } = {
+    method: request.method,
+    headers: upstreamHeaders(request),
+    body: request.method === "GET" || request.method === "HEAD" ? undefined : request.body,
+    duplex: "half",
+    signal: request.signal,
+    redirect: "manual"
+  };
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, init);
+  } catch (error) {
+    return proxyError(502, `Upstream request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const headers = new Headers();
+  upstream.headers.forEach((value, name) => {
+    if (!STRIPPED_RESPONSE_HEADERS.includes(name)) {
+      headers.set(name, value);
+    }
+  });
+  // Keep intermediaries from buffering event streams
+  headers.set("Cache-Control", "no-cache, no-transform");
+  headers.set("X-Accel-Buffering", "no");
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers
+  });
+}
+
+export const GET = relay;
+export const POST = relay;
+export const DELETE = relay;
@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect } from "react";
+import { OAUTH_CALLBACK_MESSAGE, OAUTH_CALLBACK_STORAGE_KEY } from "@/lib/oauth";
+
+// Redirect target of the authorization server. Hands the callback URL back to
+// the tester window, which checks the state and exchanges the code.
+export default function OAuthCallback() {
+  useEffect(() => {
+    const href = window.location.href;
+    if (window.opener && !window.opener.closed) {
+      window.opener.postMessage({ type: OAUTH_CALLBACK_MESSAGE, url: href }, window.location.origin);
+    } else {
+      // The opener link is gone (e.g. Cross-Origin-Opener-Policy); the storage event still reaches it
+      localStorage.setItem(OAUTH_CALLBACK_STORAGE_KEY, href);
+    }
+    window.close();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[#faf9f7] flex items-center justify-center">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-center">
+        <h1 className="text-lg font-semibold text-gray-900">MCP Online</h1>
+        <p className="text-sm text-gray-600 mt-2">Authorization finished. You can close this window.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Collection,
+  SavedRequest,
+  createId,
+  duplicateRequest,
+  exportCollections,
+  importCollections,
+  moveItem
+} from "@/lib/collections";
+import { downloadFile } from "@/lib/download";
+
+export type RequestDraft = Omit<SavedRequest, 'id' | 'name'>;
+
+const buttonClass = "px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-xs font-medium";
+const iconButtonClass = "px-1.5 text-gray-400 hover:text-gray-900 disabled:opacity-30 disabled:hover:text-gray-400";
+const inputClass = "w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm";
+
+// Commits the new name on Enter or blur; Escape (or an empty name) keeps the old one
+function RenameInput({ name, onCommit }: { name: string; onCommit: (name: string | null) => void }) {
+  const [draft, setDraft] = useState(name);
+  return (
+    <input
+      autoFocus
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.trim() || null)}
+      onKeyDown={e => {
+        if (e.key === 'Enter') onCommit(draft.trim() || null);
+        if (e.key === 'Escape') onCommit(null);
+      }}
+      className={inputClass}
+    />
+  );
+}
+
+/**
+ * Saved requests grouped into named collections. Requests are saved from and
+ * loaded into the editor; collections can be shared as JSON files.
+ */
+export default function CollectionsSidebar({ collections, onChange, draft, onLoad }: {
+  collections: Collection[];
+  onChange: (collections: Collection[]) => void;
+  draft: RequestDraft;
+  onLoad: (request: SavedRequest) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  function updateCollection(id: string, update: (collection: Collection) => Collection) {
+    onChange(collections.map(collection => collection.id === id ? update(collection) : collection));
+  }
+
+  function updateRequests(collectionId: string, update: (requests: SavedRequest[]) => SavedRequest[]) {
+    updateCollection(collectionId, collection => ({ ...collection, requests: update(collection.requests) }));
+  }
+
+  function addCollection() {
+    const collection: Collection = { id: createId(), name: `Collection ${collections.length + 1}`, requests: [] };
+    onChange([...collections, collection]);
+    setEditingId(collection.id);
+  }
+
+  function deleteCollection(collection: Collection) {
+    if (collection.requests.length > 0 && !confirm(`Delete "${collection.name}" and its ${collection.requests.length} requests?`)) return;
+    onChange(collections.filter(existing => existing.id !== collection.id));
+  }
+
+  function saveDraft(collectionId: string) {
+    const request: SavedRequest = { ...draft, id: createId(), name: defaultRequestName(draft) };
+    updateRequests(collectionId, requests => [...requests, request]);
+    setActiveId(request.id);
+    setEditingId(request.id);
+  }
+
+  function load(request: SavedRequest) {
+    setActiveId(request.id);
+    onLoad(request);
+  }
+
+  async function importFile(file: File) {
+    try {
+      const imported = importCollections(await file.text());
+      onChange([...collections, ...imported]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="bg-gray-50 px-4 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Collections</h2>
+        <button onClick={addCollection} className={buttonClass}>+ New</button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {collections.length === 0 && (
+          <p className="text-sm text-gray-500">Create a collection to save the current request and load it again later.</p>
+        )}
+
+        {collections.map((collection, collectionIndex) => {
+          const isCollapsed = collapsed.includes(collection.id);
+          return (
+            <div key={collection.id} className="space-y-2">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setCollapsed(prev => isCollapsed ? prev.filter(id => id !== collection.id) : [...prev, collection.id])}
+                  className="text-gray-500 w-4 text-xs"
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+                <div className="flex-1 min-w-0">
+                  {editingId === collection.id ? (
+                    <RenameInput
+                      name={collection.name}
+                      onCommit={name => {
+                        if (name) updateCollection(collection.id, existing => ({ ...existing, name }));
+                        setEditingId(null);
+                      }}
+                    />
+                  ) : (
+                    <span onDoubleClick={() => setEditingId(collection.id)} className="text-sm font-semibold text-gray-900 truncate block" title="Double-click to rename">
+                      {collection.name}
+                    </span>
+                  )}
+                </div>
+                <button onClick={() => onChange(moveItem(collections, collectionIndex, collectionIndex - 1))} disabled={collectionIndex === 0} className={iconButtonClass} title="Move up">↑</button>
+                <button onClick={() => onChange(moveItem(collections, collectionIndex, collectionIndex + 1))} disabled={collectionIndex === collections.length - 1} className={iconButtonClass} title="Move down">↓</button>
+                <button onClick={() => deleteCollection(collection)} className={iconButtonClass} title="Delete collection">×</button>
+              </div>
+
+              {!isCollapsed && (
+                <div className="pl-4 space-y-1">
+                  {collection.requests.map((request, index) => (
+                    <div
+                      key={request.id}
+                      className={`group border rounded-lg px-2 py-1.5 ${request.id === activeId ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] font-mono font-semibold text-gray-500 w-9 shrink-0">{request.method}</span>
+                        {editingId === request.id ? (
+                          <RenameInput
+                            name={request.name}
+                            onCommit={name => {
+                              if (name) updateRequests(collection.id, requests => requests.map(r => r.id === request.id ? { ...r, name } : r));
+                              setEditingId(null);
+                            }}
+                          />
+                        ) : (
+                          <button onClick={() => load(request)} onDoubleClick={() => setEditingId(request.id)} className="flex-1 min-w-0 text-left text-sm text-gray-900 truncate" title={request.url}>
+                            {request.name}
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex justify-end gap-0.5 text-xs opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                        <button onClick={() => setEditingId(request.id)} className={iconButtonClass} title="Rename">✎</button>
+                        <button
+                          onClick={() => updateRequests(collection.id, requests => requests.map(r => r.id === request.id ? { ...r, ...draft } : r))}
+                          className={iconButtonClass}
+                          title="Overwrite with the request in the editor"
+                        >
+                          ⤓
+                        </button>
+                        <button
+                          onClick={() => updateRequests(collection.id, requests => [...requests.slice(0, index + 1), duplicateRequest(request), ...requests.slice(index + 1)])}
+                          className={iconButtonClass}
+                          title="Duplicate"
+                        >
+                          ⧉
+                        </button>
+                        <button onClick={() => updateRequests(collection.id, requests => moveItem(requests, index, index - 1))} disabled={index === 0} className={iconButtonClass} title="Move up">↑</button>
+                        <button onClick={() => updateRequests(collection.id, requests => moveItem(requests, index, index + 1))} disabled={index === collection.requests.length - 1} className={iconButtonClass} title="Move down">↓</button>
+                        <button onClick={() => updateRequests(collection.id, requests => requests.filter(r => r.id !== request.id))} className={iconButtonClass} title="Delete">×</button>
+                      </div>
+                    </div>
+                  ))}
+                  <button onClick={() => saveDraft(collection.id)} className="text-xs text-gray-500 hover:text-gray-900">
+                    + Save current request
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex gap-2 pt-2 border-t border-gray-200">
+          <button
+            onClick={() => downloadFile(exportCollections(collections), `mcp-collections-${new Date().toISOString().slice(0, 10)}.json`)}
+            disabled={collections.length === 0}
+            className={`${buttonClass} disabled:opacity-50`}
+          >
+            💾 Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>📂 Import</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importError && <p className="text-xs text-red-600">{importError}</p>}
+      </div>
+    </div>
+  );
+}
+
+// Names a new entry after the JSON-RPC method in its body when there is one
+function defaultRequestName(draft: RequestDraft): string {
+  try {
+    const message = JSON.parse(draft.body);
+    if (typeof message?.method === 'string') return message.method;
+  } catch {
+    // Not JSON; fall back to the URL
+  }
+  return draft.url.replace(/^https?:\/\//, '') || 'New request';
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { DiffNode, diffJson, diffStats } from "@/lib/jsonDiff";
+import { importSession, sessionMessages } from "@/lib/sessionFile";
+
+const buttonClass = "px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-xs font-medium disabled:opacity-50";
+const inputClass = "px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm font-mono";
+
+/** One side of a comparison: an event from the stream or an imported session. */
+export interface CompareSide {
+  label: string;
+  value: unknown;
+  /** Set when the side is an event, so it can be shown in the stream. */
+  eventId?: string;
+}
+
+export type CompareSides = [CompareSide | null, CompareSide | null];
+
+const KIND_CLASSES: Record<DiffNode['kind'], string> = {
+  unchanged: 'text-gray-500',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+  changed: 'text-gray-900'
+};
+
+const KIND_MARKERS: Record<DiffNode['kind'], string> = {
+  unchanged: ' ',
+  added: '+',
+  removed: '−',
+  changed: '~'
+};
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value);
+  if (text === undefined) return String(value);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+function DiffRow({ node, showUnchanged }: { node: DiffNode; showUnchanged: boolean }) {
+  const [expanded, setExpanded] = useState(true);
+  const hiddenCount = showUnchanged ? 0 : node.children?.filter(child => child.kind === 'unchanged').length ?? 0;
+  const label = node.label !== undefined && <span className="text-gray-600">{node.label}: </span>;
+
+  if (node.children) {
+    const isArray = Array.isArray(node.after);
+    return (
+      <div>
+        <div className={`flex items-baseline gap-1 px-1 rounded ${KIND_CLASSES[node.kind]}`}>
+          <span className="w-3 shrink-0 text-gray-400">{KIND_MARKERS[node.kind]}</span>
+          <button onClick={() => setExpanded(!expanded)} className="w-3 shrink-0 text-gray-400 hover:text-gray-900">
+            {expanded ? '▾' : '▸'}
+          </button>
+          {label}
+          <span className="text-gray-400">{isArray ? `[${node.children.length}]` : `{${node.children.length}}`}</span>
+        </div>
+        {expanded && (
+          <div className="ml-5 border-l border-gray-200 pl-1">
+            {node.children
+              .filter(child => showUnchanged || child.kind !== 'unchanged')
+              .map(child => <DiffRow key={child.label} node={child} showUnchanged={showUnchanged} />)}
+            {hiddenCount > 0 && <div className="px-1 text-gray-400 italic">{hiddenCount} unchanged</div>}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex items-baseline gap-1 px-1 rounded ${KIND_CLASSES[node.kind]}`} title={node.path}>
+      <span className="w-3 shrink-0 text-gray-400">{KIND_MARKERS[node.kind]}</span>
+      <span className="w-3 shrink-0" />
+      <span className="min-w-0 break-all">
+        {label}
+        {node.kind === 'added' && preview(node.after)}
+        {node.kind === 'removed' && preview(node.before)}
+        {node.kind === 'unchanged' && preview(node.after)}
+        {node.kind === 'changed' && (
+          <>
+            <span className="bg-red-50 text-red-700 line-through decoration-red-300">{preview(node.before)}</span>
+            <span className="text-gray-400"> → </span>
+            <span className="bg-green-50 text-green-700">{preview(node.after)}</span>
+          </>
+        )}
+      </span>
+    </div>
+  );
+}
+
+function SideCard({ name, side, onLoad, onClear, onJump }: {
+  name: string;
+  side: CompareSide | null;
+  onLoad: (side: CompareSide) => void;
+  onClear: () => void;
+  onJump: (eventId: string) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  async function loadFile(file: File) {
+    try {
+      const session = importSession(await file.text(), file.name);
+      onLoad({ label: `${file.name} (${session.events.length} events)`, value: sessionMessages(session.events) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div className="flex-1 min-w-0 border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-gray-500 uppercase">{name}</span>
+        <div className="flex gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Compare an exported session file">
+            📂 Session
+          </button>
+          {side && <button onClick={onClear} className={buttonClass}>Clear</button>}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {side ? (
+        <div className="text-sm text-gray-900 font-mono truncate" title={side.label}>
+          {side.eventId ? (
+            <button onClick={() => onJump(side.eventId!)} className="hover:underline" title="Show in stream">{side.label}</button>
+          ) : side.label}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Click ⇄ on an event in the stream, or load an exported session.</p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Structural diff of two events or two exported sessions. Sessions are
+ * compared message by message, keyed by direction and method.
+ */
+export default function ComparePanel({ sides, onChange, onJump }: {
+  sides: CompareSides;
+  onChange: (sides: CompareSides) => void;
+  onJump: (eventId: string) => void;
+}) {
+  const [ignoreKeys, setIgnoreKeys] = useState('id, timestamp, _meta');
+  const [arrayKey, setArrayKey] = useState('name');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const [before, after] = sides;
+  const diff = before && after ? diffJson(before.value, after.value, {
+    ignoreKeys: ignoreKeys.split(',').map(key => key.trim()).filter(Boolean),
+    arrayKey: arrayKey.trim() || undefined
+  }) : null;
+  const stats = diff && diffStats(diff);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-stretch gap-2">
+        <SideCard name="A (before)" side={before} onLoad={side => onChange([side, after])} onClear={() => onChange([null, after])} onJump={onJump} />
+        <button onClick={() => onChange([after, before])} disabled={!before && !after} className={`${buttonClass} self-center`} title="Swap A and B">
+          ⇄
+        </button>
+        <SideCard name="B (after)" side={after} onLoad={side => onChange([before, side])} onClear={() => onChange([before, null])} onJump={onJump} />
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Ignore keys
+          <input value={ignoreKeys} onChange={e => setIgnoreKeys(e.target.value)} placeholder="id, timestamp" className={`${inputClass} w-48`} />
+        </label>
+        <label className="flex items-center gap-2" title="Arrays of objects that all have this field are matched by it instead of by position">
+          Match array items by
+          <input value={arrayKey} onChange={e => setArrayKey(e.target.value)} placeholder="name" className={`${inputClass} w-24`} />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={e => setShowUnchanged(e.target.checked)}
+            className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+          />
+          Show unchanged
+        </label>
+      </div>
+
+      {diff && stats ? (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs text-gray-600">
+            {diff.kind === 'unchanged' ? 'No differences' : (
+              <>
+                <span className="text-green-700">{stats.added} added</span> •{' '}
+                <span className="text-red-700">{stats.removed} removed</span> •{' '}
+                <span className="text-yellow-700">{stats.changed} changed</span>
+              </>
+            )}
+          </div>
+          <div className="p-2 max-h-[480px] overflow-auto font-mono text-xs leading-5">
+            <DiffRow node={diff} showUnchanged={showUnchanged} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Pick two events or sessions to compare.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { downloadFile } from "@/lib/download";
+import { CheckResult, CheckStatus, ConformanceReport, reportToJUnit, reportToJson } from "@/lib/conformance";
+
+const buttonClass = "px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+
+const STATUS_STYLES: Record<CheckStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-600' },
+  fail: { icon: '✗', className: 'text-red-600' },
+  skip: { icon: '–', className: 'text-gray-400' }
+};
+
+function CheckRow({ check, onJump }: { check: CheckResult; onJump: (eventId: string) => void }) {
+  const { icon, className } = STATUS_STYLES[check.status];
+  return (
+    <div className="border border-gray-200 rounded-lg px-3 py-2">
+      <div className="flex items-start gap-2">
+        <span className={`font-bold ${className}`}>{icon}</span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-900">{check.name}</span>
+            <span className="text-xs text-gray-500 font-mono">{check.durationMs}ms</span>
+          </div>
+          <div className={`text-xs mt-0.5 ${check.status === 'fail' ? 'text-red-600' : 'text-gray-600'}`}>{check.message}</div>
+          {check.evidence.length > 0 && (
+            <details className="mt-1">
+              <summary className="text-xs text-gray-500 cursor-pointer">Evidence ({check.evidence.length})</summary>
+              <div className="mt-1 space-y-2">
+                {check.evidence.map((entry, index) => (
+                  <div key={index} className="bg-gray-50 border border-gray-200 rounded p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-medium text-gray-700">HTTP {entry.status ?? '—'}</span>
+                      {entry.eventId && (
+                        <button onClick={() => onJump(entry.eventId!)} className="text-xs text-gray-600 hover:text-gray-900 underline">
+                          Show in stream
+                        </button>
+                      )}
+                    </div>
+                    <pre className="mt-1 text-xs text-gray-700 whitespace-pre-wrap break-all font-mono">{entry.request}</pre>
+                    {entry.response && (
+                      <pre className="mt-1 text-xs text-gray-500 whitespace-pre-wrap break-all font-mono max-h-40 overflow-y-auto">{entry.response}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Runs the conformance suite against the configured endpoint and offers the
+ * report as JSON or JUnit XML.
+ */
+export default function ConformancePanel({ unsupported, onRun, onJump }: {
+  /** Why the suite cannot run with the current settings, if it cannot. */
+  unsupported?: string;
+  onRun: (onCheck: (result: CheckResult) => void, signal: AbortSignal) => Promise<ConformanceReport>;
+  onJump: (eventId: string) => void;
+}) {
+  const [checks, setChecks] = useState<CheckResult[]>([]);
+  const [report, setReport] = useState<ConformanceReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  async function run() {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setChecks([]);
+    setReport(null);
+    setError(null);
+    try {
+      setReport(await onRun(result => setChecks(prev => [...prev, result]), controller.signal));
+    } catch (err) {
+      setError(err instanceof Error ? (err.name === 'AbortError' ? 'Cancelled' : err.message) : String(err));
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  }
+
+  function download(format: 'json' | 'junit') {
+    if (!report) return;
+    const stamp = report.startedAt.replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadFile(reportToJson(report), `mcp-conformance-${stamp}.json`);
+    } else {
+      downloadFile(reportToJUnit(report), `mcp-conformance-${stamp}.xml`, 'application/xml');
+    }
+  }
+
+  const count = (status: CheckStatus) => checks.filter(check => check.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <p className="text-sm text-gray-600">
+            Handshake, ping, tools, error codes, session id enforcement and DELETE termination, in a session of their own.
+          </p>
+          {unsupported && <p className="text-xs text-yellow-700 mt-1">{unsupported}</p>}
+        </div>
+        <div className="flex gap-2">
+          {report && (
+            <>
+              <button onClick={() => download('json')} className={buttonClass}>⬇ JSON</button>
+              <button onClick={() => download('junit')} className={buttonClass}>⬇ JUnit XML</button>
+            </>
+          )}
+          {running ? (
+            <button onClick={() => controllerRef.current?.abort()} className={buttonClass}>Cancel</button>
+          ) : (
+            <button onClick={run} disabled={!!unsupported} className={buttonClass}>▶ Run conformance suite</button>
+          )}
+        </div>
+      </div>
+
+      {checks.length > 0 && (
+        <div className="flex gap-4 text-sm">
+          <span className="text-green-600">{count('pass')} passed</span>
+          <span className="text-red-600">{count('fail')} failed</span>
+          <span className="text-gray-500">{count('skip')} skipped</span>
+          {report?.server && <span className="text-gray-500">{report.server} · {report.protocolVersion}</span>}
+          {running && <span className="text-gray-500">Running…</span>}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {checks.map(check => <CheckRow key={check.id} check={check} onJump={onJump} />)}
+      </div>
+    </div>
+  );
+}
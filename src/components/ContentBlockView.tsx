@@ -0,0 +1,31 @@
+"use client";
+
+import ResourceContentView from "@/components/ResourceContentView";
+import { ContentBlock, ResourceContents, isObject } from "@/lib/mcp";
+
+/** Renders one MCP content block: text, image, audio, embedded resource or resource link. */
+export default function ContentBlockView({ block }: { block: ContentBlock }) {
+  switch (block.type) {
+    case 'text':
+      return <pre className="text-sm text-gray-800 whitespace-pre-wrap font-mono">{String(block.text ?? '')}</pre>;
+    case 'image':
+      // eslint-disable-next-line @next/next/no-img-element
+      return <img src={`data:${block.mimeType};base64,${block.data}`} alt="Image content" className="max-w-full rounded" />;
+    case 'audio':
+      return <audio controls src={`data:${block.mimeType};base64,${block.data}`} />;
+    case 'resource':
+      if (isObject(block.resource)) {
+        return <ResourceContentView contents={block.resource as unknown as ResourceContents} />;
+      }
+      break;
+    case 'resource_link':
+      return (
+        <div className="border border-gray-200 rounded-lg bg-gray-50 p-3 text-sm">
+          <span className="text-gray-500">🔗 </span>
+          <span className="font-medium text-gray-900">{String(block.title ?? block.name ?? '')}</span>
+          <span className="ml-2 font-mono text-xs text-gray-500 break-all">{String(block.uri)}</span>
+        </div>
+      );
+  }
+  return <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono">{JSON.stringify(block, null, 2)}</pre>;
+}
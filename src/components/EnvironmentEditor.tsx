@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Environment, EnvironmentVariable, createEnvironment } from "@/lib/environments";
+
+const buttonClass = "px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-xs font-medium";
+const inputClass = "flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+
+/** Edits environments and their variables. Selecting one here does not activate it. */
+export default function EnvironmentEditor({ environments, onChange }: {
+  environments: Environment[];
+  onChange: (environments: Environment[]) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(environments[0]?.id ?? null);
+  const selected = environments.find(environment => environment.id === selectedId) || null;
+
+  function update(id: string, change: Partial<Environment>) {
+    onChange(environments.map(environment => environment.id === id ? { ...environment, ...change } : environment));
+  }
+
+  function updateVariable(index: number, change: Partial<EnvironmentVariable>) {
+    if (!selected) return;
+    update(selected.id, {
+      variables: selected.variables.map((variable, i) => i === index ? { ...variable, ...change } : variable)
+    });
+  }
+
+  function addEnvironment() {
+    const environment = createEnvironment(`Environment ${environments.length + 1}`);
+    onChange([...environments, environment]);
+    setSelectedId(environment.id);
+  }
+
+  function duplicateEnvironment(environment: Environment) {
+    const copy = { ...createEnvironment(`${environment.name} copy`), variables: environment.variables.map(v => ({ ...v })) };
+    onChange([...environments, copy]);
+    setSelectedId(copy.id);
+  }
+
+  function deleteEnvironment(environment: Environment) {
+    if (!confirm(`Delete environment "${environment.name}"?`)) return;
+    const remaining = environments.filter(existing => existing.id !== environment.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="bg-gray-50 px-4 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Environments</h2>
+        <button onClick={addEnvironment} className={buttonClass}>+ New</button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {environments.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Create an environment to define variables, then use them as <code>{'{{name}}'}</code> in the URL, header values or body.
+          </p>
+        )}
+
+        <div className="flex gap-2 flex-wrap">
+          {environments.map(environment => (
+            <button
+              key={environment.id}
+              onClick={() => setSelectedId(environment.id)}
+              className={`px-3 py-1 border rounded-lg transition-colors text-sm ${
+                environment.id === selectedId
+                  ? 'bg-gray-900 border-gray-900 text-white'
+                  : 'border-gray-300 hover:bg-gray-50 text-gray-700 hover:text-gray-900'
+              }`}
+            >
+              {environment.name}
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                value={selected.name}
+                onChange={e => update(selected.id, { name: e.target.value })}
+                className={inputClass}
+                placeholder="Environment name"
+              />
+              <button onClick={() => duplicateEnvironment(selected)} className={buttonClass} title="Duplicate">⧉</button>
+              <button onClick={() => deleteEnvironment(selected)} className={buttonClass} title="Delete">🗑️</button>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">Variables</label>
+            <div className="space-y-2">
+              {selected.variables.map((variable, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    value={variable.key}
+                    onChange={e => updateVariable(index, { key: e.target.value })}
+                    placeholder="name"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <input
+                    value={variable.value}
+                    onChange={e => updateVariable(index, { value: e.target.value })}
+                    placeholder="value"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => update(selected.id, { variables: selected.variables.filter((_, i) => i !== index) })}
+                    className="px-2 text-gray-400 hover:text-gray-900"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update(selected.id, { variables: [...selected.variables, { key: '', value: '' }] })}
+                className={buttonClass}
+              >
+                + Add Variable
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { EMPTY_FILTER, EventFilter, isFilterActive } from "@/lib/eventFilter";
+
+const inputClass = "px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+
+/** Filter controls above the event list; filtering itself happens in filterEvents. */
+export default function EventFilterBar({ filter, onChange, types, shown, total, searchError, jsonPathError }: {
+  filter: EventFilter;
+  onChange: (filter: EventFilter) => void;
+  types: string[];
+  shown: number;
+  total: number;
+  searchError?: string;
+  jsonPathError?: string;
+}) {
+  function update(change: Partial<EventFilter>) {
+    onChange({ ...filter, ...change });
+  }
+
+  function toggleType(type: string) {
+    update({ types: filter.types.includes(type) ? filter.types.filter(existing => existing !== type) : [...filter.types, type] });
+  }
+
+  return (
+    <div className="px-6 py-3 border-b border-gray-200 space-y-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        {types.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-2 py-0.5 border rounded-full text-xs capitalize transition-colors ${
+              filter.types.includes(type)
+                ? 'bg-gray-900 border-gray-900 text-white'
+                : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {type}
+          </button>
+        ))}
+        {isFilterActive(filter) && (
+          <>
+            <span className="ml-auto text-xs text-gray-500">{shown} of {total} shown</span>
+            <button onClick={() => onChange(EMPTY_FILTER)} className="text-xs text-gray-600 hover:text-gray-900 underline">
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input value={filter.method} onChange={e => update({ method: e.target.value })} placeholder="Method" className={`${inputClass} w-32 font-mono`} />
+        <input value={filter.id} onChange={e => update({ id: e.target.value })} placeholder="Id" className={`${inputClass} w-16 font-mono`} />
+        <input
+          value={filter.search}
+          onChange={e => update({ search: e.target.value })}
+          placeholder={filter.regex ? 'Regular expression' : 'Search'}
+          className={`${inputClass} flex-1 min-w-0 ${filter.regex ? 'font-mono' : ''} ${searchError ? 'border-red-400' : ''}`}
+        />
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={filter.regex}
+            onChange={e => update({ regex: e.target.checked })}
+            className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+          />
+          .*
+        </label>
+      </div>
+      <input
+        value={filter.jsonPath}
+        onChange={e => update({ jsonPath: e.target.value })}
+        placeholder="JSONPath, e.g. $.result.tools[*].name"
+        className={`${inputClass} w-full font-mono ${jsonPathError ? 'border-red-400' : ''}`}
+      />
+      {(searchError || jsonPathError) && (
+        <p className="text-xs text-red-600">{searchError || jsonPathError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { memo } from "react";
+import JsonViewer from "@/components/JsonViewer";
+import { formatExtracted } from "@/lib/eventFilter";
+import { JsonRpcId } from "@/lib/mcp";
+import { RpcStatus, StreamEvent } from "@/lib/streamEvents";
+
+export interface EventItemActions {
+  jump: (eventId: string) => void;
+  cancel: (id: JsonRpcId) => void;
+  compare: (eventId: string) => void;
+}
+
+function copyToClipboard(text: string) {
+  navigator.clipboard?.writeText(text).catch(() => {});
+}
+
+/**
+ * One row of the event list. Rows are memoized, so every prop has to stay
+ * referentially stable between renders unless the row really changed.
+ */
+const EventItem = memo(function EventItem({ event, extracted, showTimestamps, formatJson, highlighted, canCancel, actions }: {
+  event: StreamEvent;
+  extracted?: unknown[];
+  showTimestamps: boolean;
+  formatJson: boolean;
+  highlighted: boolean;
+  canCancel: boolean;
+  actions: EventItemActions;
+}) {
+  const getEventIcon = () => {
+    const iconStyle = {
+      width: '8px',
+      height: '8px',
+      borderRadius: '50%',
+      display: 'inline-block'
+    };
+    
+    switch (event.type) {
+      case 'connection': return <span style={{ ...iconStyle, backgroundColor: '#3b82f6' }}></span>;
+      case 'error': return <span style={{ ...iconStyle, backgroundColor: '#ef4444' }}></span>;
+      case 'info': return <span style={{ ...iconStyle, backgroundColor: '#f59e0b' }}></span>;
+      case 'request': return <span style={{ ...iconStyle, backgroundColor: '#a855f7' }}></span>;
+      default: return <span style={{ ...iconStyle, backgroundColor: '#10b981' }}></span>;
+    }
+  };
+
+  const eventItemStyle = {
+    marginBottom: '1rem',
+    paddingBottom: '0.75rem',
+    borderBottom: '1px solid #374151',
+    transition: 'background-color 0.3s ease',
+    backgroundColor: highlighted ? 'rgba(168, 85, 247, 0.15)' : 'transparent'
+  };
+
+  const timestampStyle = {
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    marginBottom: '0.5rem',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem'
+  };
+
+  const sseDetailStyle = {
+    backgroundColor: '#1f2937',
+    border: '1px solid #374151',
+    borderRadius: '0.25rem',
+    padding: '0 0.375rem',
+    color: '#9ca3af'
+  };
+
+  const markerStyles = {
+    reconnect: { color: '#fbbf24', borderColor: '#92400e' },
+    resumed: { color: '#c4b5fd', borderColor: '#5b21b6' }
+  };
+
+  const rpcStatusStyles: Record<RpcStatus, { color: string; borderColor: string }> = {
+    pending: { color: '#9ca3af', borderColor: '#374151' },
+    result: { color: '#34d399', borderColor: '#065f46' },
+    error: { color: '#f87171', borderColor: '#991b1b' },
+    timeout: { color: '#fbbf24', borderColor: '#92400e' },
+    cancelled: { color: '#9ca3af', borderColor: '#4b5563' }
+  };
+
+  const rpc = event.rpc;
+
+  // SSE fields worth showing; the default "message" event name is noise
+  const sseDetails = [
+    event.eventName && event.eventName !== 'message' ? `event: ${event.eventName}` : null,
+    event.lastEventId ? `id: ${event.lastEventId}` : null,
+    event.retry !== undefined ? `retry: ${event.retry}ms` : null
+  ].filter((detail): detail is string => detail !== null);
+
+  const jsonFormattedStyle = {
+    backgroundColor: '#111827',
+    border: '1px solid #374151',
+    borderRadius: '0.5rem',
+    padding: '0.75rem'
+  };
+
+  const copyButtonStyle = {
+    backgroundColor: 'rgba(55, 65, 81, 0.8)',
+    color: '#9ca3af',
+    border: 'none',
+    borderRadius: '0.25rem',
+    padding: '0.25rem 0.5rem',
+    fontSize: '0.75rem',
+    cursor: 'pointer',
+    transition: 'all 0.2s ease'
+  };
+
+  return (
+    <div id={`event-${event.id}`} style={eventItemStyle}>
+      {(showTimestamps || sseDetails.length > 0 || event.marker) && (
+        <div style={timestampStyle}>
+          {getEventIcon()}
+          {showTimestamps && (
+            <>
+              <span>{event.time}</span>
+              <span style={{ color: '#6b7280', textTransform: 'capitalize' }}>({event.type})</span>
+            </>
+          )}
+          {sseDetails.map(detail => (
+            <span key={detail} style={sseDetailStyle}>{detail}</span>
+          ))}
+          {event.marker && (
+            <span style={{ ...sseDetailStyle, ...markerStyles[event.marker] }}>
+              {event.marker === 'reconnect' ? '↻ reconnect' : '⤷ resumed'}
+            </span>
+          )}
+        </div>
+      )}
+      
+      {rpc && (
+        <div style={{ ...timestampStyle, color: '#d1d5db', fontFamily: 'var(--font-geist-mono), Courier New, monospace' }}>
+          <span style={{ color: rpc.kind === 'response' ? '#34d399' : '#c084fc' }}>
+            {event.type === 'request' ? '→' : '←'}
+          </span>
+          {rpc.method && <span>{rpc.method}</span>}
+          {rpc.id !== undefined && <span style={{ color: '#9ca3af' }}>#{String(rpc.id)}</span>}
+          {rpc.kind === 'notification' && <span style={{ color: '#6b7280' }}>notification</span>}
+          {rpc.status && (
+            <span style={{ ...sseDetailStyle, ...rpcStatusStyles[rpc.status] }}>{rpc.status}</span>
+          )}
+          {rpc.latencyMs !== undefined && <span style={{ color: '#9ca3af' }}>{rpc.latencyMs}ms</span>}
+          {rpc.linkedEventId && (
+            <button
+              onClick={() => actions.jump(rpc.linkedEventId!)}
+              style={{ ...sseDetailStyle, cursor: 'pointer' }}
+              title={rpc.kind === 'response' ? 'Jump to the request' : 'Jump to the response'}
+            >
+              {rpc.kind === 'response' ? '↑ request' : '↓ response'}
+            </button>
+          )}
+          {rpc.kind === 'request' && rpc.status === 'pending' && rpc.id !== undefined && rpc.method !== 'initialize' && canCancel && (
+            <button
+              onClick={() => actions.cancel(rpc.id!)}
+              style={{ ...sseDetailStyle, cursor: 'pointer', color: '#f87171' }}
+              title="Send notifications/cancelled for this request"
+            >
+              ✕ cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      {rpc?.progress && (
+        <div style={{ marginBottom: '0.5rem' }}>
+          <div style={{ height: '6px', backgroundColor: '#374151', borderRadius: '9999px', overflow: 'hidden' }}>
+            <div style={{
+              height: '100%',
+              width: rpc.progress.total ? `${Math.min(100, (rpc.progress.progress / rpc.progress.total) * 100)}%` : '100%',
+              backgroundColor: rpc.status === 'pending' ? '#a855f7' : '#4b5563',
+              opacity: rpc.progress.total ? 1 : 0.5,
+              transition: 'width 0.2s ease'
+            }} />
+          </div>
+          <div style={{ fontSize: '0.75rem', color: '#9ca3af', marginTop: '0.25rem' }}>
+            {rpc.progress.progress}{rpc.progress.total !== undefined && ` / ${rpc.progress.total}`}
+            {rpc.progress.message && ` • ${rpc.progress.message}`}
+          </div>
+        </div>
+      )}
+
+      {rpc?.error && (
+        <div style={{
+          backgroundColor: 'rgba(127, 29, 29, 0.3)',
+          border: '1px solid #991b1b',
+          borderRadius: '0.5rem',
+          padding: '0.5rem 0.75rem',
+          marginBottom: '0.5rem',
+          color: '#fca5a5',
+          fontSize: '0.875rem'
+        }}>
+          Error {rpc.error.code}: {rpc.error.message}
+        </div>
+      )}
+
+      {event.violations && (
+        <div style={{
+          backgroundColor: 'rgba(120, 53, 15, 0.3)',
+          border: '1px solid #92400e',
+          borderRadius: '0.5rem',
+          padding: '0.5rem 0.75rem',
+          marginBottom: '0.5rem',
+          color: '#fcd34d',
+          fontSize: '0.75rem'
+        }}>
+          <div style={{ fontWeight: 600, marginBottom: '0.25rem' }}>
+            ⚠ {event.violations.length} MCP schema violation{event.violations.length === 1 ? '' : 's'}
+          </div>
+          {event.violations.map(violation => (
+            <div key={`${violation.path}:${violation.message}`} style={{ fontFamily: 'var(--font-geist-mono), Courier New, monospace' }}>
+              {violation.path} {violation.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {extracted ? (
+        <div style={jsonFormattedStyle}>
+          <div style={{ ...timestampStyle, marginBottom: '0.5rem', justifyContent: 'space-between' }}>
+            <span>JSONPath • {extracted.length} {extracted.length === 1 ? 'value' : 'values'}</span>
+            <button 
+              onClick={() => copyToClipboard(formatExtracted(extracted))}
+              style={copyButtonStyle}
+              title="Copy extracted values"
+            >
+              📋 Copy
+            </button>
+          </div>
+          {extracted.map((value, index) => (
+            <div key={index} style={{ padding: '0.125rem 0', borderTop: index > 0 ? '1px solid #1f2937' : 'none' }}>
+              <JsonViewer data={value} />
+            </div>
+          ))}
+        </div>
+      ) : event.formatted && formatJson ? (
+        <div style={jsonFormattedStyle}>
+          <div style={{ 
+            ...timestampStyle, 
+            marginBottom: '0.5rem', 
+            justifyContent: 'space-between',
+            display: 'flex'
+          }}>
+            <span>Formatted JSON</span>
+            <span style={{ display: 'flex', gap: '0.25rem' }}>
+              <button 
+                onClick={() => actions.compare(event.id)}
+                style={copyButtonStyle}
+                title="Add to the compare view"
+              >
+                ⇄ Compare
+              </button>
+              <button 
+                onClick={() => copyToClipboard(JSON.stringify(event.formatted, null, 2))}
+                style={copyButtonStyle}
+                title="Copy formatted JSON"
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = 'rgba(55, 65, 81, 1)';
+                  e.currentTarget.style.color = '#d1d5db';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'rgba(55, 65, 81, 0.8)';
+                  e.currentTarget.style.color = '#9ca3af';
+                }}
+              >
+                📋 Copy
+              </button>
+            </span>
+          </div>
+          <JsonViewer data={event.formatted} />
+        </div>
+      ) : (
+        <div style={{ position: 'relative' }}>
+          <pre style={{ 
+            backgroundColor: '#111827', 
+            border: '1px solid #374151',
+            borderRadius: '0.5rem',
+            padding: '0.75rem',
+            color: '#d1d5db',
+            lineHeight: '1.6',
+            whiteSpace: 'pre-wrap',
+            fontFamily: 'var(--font-geist-mono), Courier New, monospace',
+            margin: 0
+          }}>
+            {event.raw}
+          </pre>
+          <div style={{ position: 'absolute', top: '0.5rem', right: '0.5rem', display: 'flex', gap: '0.25rem' }}>
+            <button 
+              onClick={() => actions.compare(event.id)}
+              style={{ ...copyButtonStyle, opacity: 0.7 }}
+              title="Add to the compare view"
+            >
+              ⇄
+            </button>
+            <button 
+              onClick={() => copyToClipboard(event.raw)}
+              style={{ 
+                ...copyButtonStyle,
+                opacity: 0.7
+              }}
+              title="Copy raw content"
+              onMouseEnter={(e) => {
+                e.currentTarget.style.opacity = '1';
+                e.currentTarget.style.backgroundColor = 'rgba(55, 65, 81, 1)';
+                e.currentTarget.style.color = '#d1d5db';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.opacity = '0.7';
+                e.currentTarget.style.backgroundColor = 'rgba(55, 65, 81, 0.8)';
+                e.currentTarget.style.color = '#9ca3af';
+              }}
+            >
+              📋
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default EventItem;
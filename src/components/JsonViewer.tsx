@@ -0,0 +1,281 @@
+"use client";
+
+import { CSSProperties, ReactNode, useState } from "react";
+import { childPath } from "@/lib/jsonSchema";
+
+// Nodes at this depth and below start collapsed
+const EXPANDED_DEPTH = 3;
+// Array items or object keys rendered per "show more"
+const ENTRY_CHUNK = 100;
+// Characters of a long string rendered per "show more"
+const STRING_CHUNK = 2000;
+// Shorter strings are never treated as base64; ids and hashes would match too often
+const BASE64_MIN_LENGTH = 100;
+
+const colors = {
+  punctuation: '#9ca3af',
+  key: '#fbbf24',
+  string: '#34d399',
+  number: '#60a5fa',
+  boolean: '#a78bfa',
+  empty: '#6b7280'
+};
+
+const linkButtonStyle: CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#6b7280',
+  cursor: 'pointer',
+  fontSize: '0.75rem',
+  fontFamily: 'inherit',
+  textDecoration: 'underline'
+};
+
+const toggleStyle: CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  width: '1rem',
+  color: '#6b7280',
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+  textAlign: 'left'
+};
+
+interface Base64Info {
+  payload: string;
+  mimeType?: string;
+  bytes: number;
+}
+
+/** Recognizes data: URIs and long strings made only of base64 characters. */
+function detectBase64(text: string, mimeType?: string): Base64Info | null {
+  const dataUri = /^data:([\w.+-]+\/[\w.+-]+)?(?:;[\w-]+=[^;,]*)*;base64,/.exec(text);
+  const payload = dataUri ? text.slice(dataUri[0].length) : text;
+  if (payload.length < BASE64_MIN_LENGTH || payload.length % 4 !== 0) return null;
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(payload) || /^[0-9a-f]+$/i.test(payload)) return null;
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return { payload, mimeType: dataUri?.[1] ?? mimeType, bytes: payload.length / 4 * 3 - padding };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// UTF-8 text when the bytes decode cleanly, otherwise a hex dump of the start
+function decodeBase64(payload: string): { text: string; binary: boolean } {
+  const bytes = Uint8Array.from(atob(payload), char => char.charCodeAt(0));
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), binary: false };
+  } catch {
+    const head = Array.from(bytes.slice(0, 64), byte => byte.toString(16).padStart(2, '0')).join(' ');
+    return { text: bytes.length > 64 ? `${head} …` : head, binary: true };
+  }
+}
+
+function copyToClipboard(text: string) {
+  navigator.clipboard?.writeText(text).catch(() => {});
+}
+
+/** "copy value" and "copy JSONPath", shown while the node's line is hovered. */
+function NodeActions({ value, path }: { value: unknown; path: string }) {
+  const [copied, setCopied] = useState<'value' | 'path' | null>(null);
+
+  function copy(what: 'value' | 'path') {
+    copyToClipboard(what === 'path' ? path : typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+    setCopied(what);
+    setTimeout(() => setCopied(null), 1200);
+  }
+
+  return (
+    <span style={{ marginLeft: '0.75rem', display: 'inline-flex', gap: '0.5rem' }}>
+      <button onClick={() => copy('value')} style={linkButtonStyle} title="Copy value">
+        {copied === 'value' ? 'copied' : 'copy value'}
+      </button>
+      <button onClick={() => copy('path')} style={linkButtonStyle} title={path}>
+        {copied === 'path' ? 'copied' : 'copy path'}
+      </button>
+    </span>
+  );
+}
+
+function Base64Value({ info }: { info: Base64Info }) {
+  const [open, setOpen] = useState(false);
+  const media = info.mimeType?.split('/')[0];
+  const source = `data:${info.mimeType};base64,${info.payload}`;
+  const decoded = open && media !== 'image' && media !== 'audio' ? decodeBase64(info.payload) : null;
+
+  return (
+    <>
+      <span style={{ color: colors.string }}>&quot;</span>
+      <span style={{ color: colors.boolean, border: '1px solid #4b5563', borderRadius: '0.25rem', padding: '0 0.25rem' }}>
+        base64{info.mimeType ? ` ${info.mimeType}` : ''} • {formatBytes(info.bytes)}
+      </span>
+      <span style={{ color: colors.string }}>&quot;</span>
+      <button onClick={() => setOpen(!open)} style={{ ...linkButtonStyle, marginLeft: '0.5rem' }}>
+        {open ? 'hide' : media === 'image' || media === 'audio' ? 'preview' : 'decode'}
+      </button>
+      {open && (
+        <div style={{ margin: '0.25rem 0 0.25rem 1rem' }}>
+          {media === 'image' && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={source} alt="Decoded base64 image" style={{ maxWidth: '100%', maxHeight: '240px', borderRadius: '0.25rem' }} />
+          )}
+          {media === 'audio' && <audio controls src={source} />}
+          {decoded && (
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-all', color: decoded.binary ? colors.empty : '#d1d5db' }}>
+              {decoded.text}
+            </pre>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+function StringValue({ text, mimeType }: { text: string; mimeType?: string }) {
+  const [shown, setShown] = useState(STRING_CHUNK);
+  const base64 = detectBase64(text, mimeType);
+  if (base64) return <Base64Value info={base64} />;
+
+  const remaining = text.length - shown;
+  return (
+    <>
+      <span style={{ color: colors.string, wordBreak: 'break-all' }}>
+        &quot;{remaining > 0 ? text.slice(0, shown) : text}{remaining > 0 ? '…' : ''}&quot;
+      </span>
+      {remaining > 0 && (
+        <button onClick={() => setShown(shown + STRING_CHUNK)} style={{ ...linkButtonStyle, marginLeft: '0.5rem' }}>
+          show more ({remaining.toLocaleString()} more chars)
+        </button>
+      )}
+    </>
+  );
+}
+
+function PrimitiveValue({ value, mimeType }: { value: unknown; mimeType?: string }) {
+  if (value === null) return <span style={{ color: colors.empty }}>null</span>;
+  if (value === undefined) return <span style={{ color: colors.empty }}>undefined</span>;
+  if (typeof value === 'string') return <StringValue text={value} mimeType={mimeType} />;
+  if (typeof value === 'number') return <span style={{ color: colors.number }}>{value}</span>;
+  if (typeof value === 'boolean') return <span style={{ color: colors.boolean }}>{String(value)}</span>;
+  return <span style={{ color: '#d1d5db' }}>{String(value)}</span>;
+}
+
+/**
+ * One value in the tree. Collapsed containers render none of their children,
+ * and expanded ones render them a chunk at a time.
+ */
+function JsonNode({ value, path, name, depth, comma, mimeType }: {
+  value: unknown;
+  path: string;
+  /** The key when the node is an object member. */
+  name?: string;
+  depth: number;
+  comma: boolean;
+  /** mimeType of the enclosing object, used to preview base64 data. */
+  mimeType?: string;
+}) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const [shown, setShown] = useState(ENTRY_CHUNK);
+  const [hovered, setHovered] = useState(false);
+
+  const isArray = Array.isArray(value);
+  const isContainer = value !== null && typeof value === 'object';
+  // Collapsed nodes only need the count; entries are built once expanded, and only for the shown chunk
+  const keys = isContainer && !isArray ? Object.keys(value) : [];
+  const size = isArray ? value.length : keys.length;
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  // The node's first line: toggle, key, the value or its opening bracket, and the hover actions
+  const line = (content: ReactNode, trailing: ReactNode) => (
+    <div onMouseEnter={() => setHovered(true)} onMouseLeave={() => setHovered(false)}>
+      {isContainer && size > 0 ? (
+        <button onClick={() => setExpanded(!expanded)} style={toggleStyle} title={expanded ? 'Collapse' : 'Expand'}>
+          {expanded ? '▾' : '▸'}
+        </button>
+      ) : depth > 0 && <span style={{ display: 'inline-block', width: '1rem' }} />}
+      {name !== undefined && (
+        <>
+          <span style={{ color: colors.key }}>&quot;{name}&quot;</span>
+          <span style={{ color: colors.punctuation }}>: </span>
+        </>
+      )}
+      {content}
+      {trailing}
+      {hovered && <NodeActions value={value} path={path} />}
+    </div>
+  );
+  const trailingComma = comma && <span style={{ color: colors.punctuation }}>,</span>;
+
+  if (!isContainer || size === 0) {
+    const content = isContainer
+      ? <span style={{ color: colors.punctuation }}>{open}{close}</span>
+      : <PrimitiveValue value={value} mimeType={mimeType} />;
+    return line(content, trailingComma);
+  }
+
+  if (!expanded) {
+    const count = `${size} ${isArray ? (size === 1 ? 'item' : 'items') : (size === 1 ? 'key' : 'keys')}`;
+    return line(
+      <span style={{ color: colors.punctuation, cursor: 'pointer' }} onClick={() => setExpanded(true)}>
+        {open}<span style={{ color: colors.empty }}> … {count} </span>{close}
+      </span>,
+      trailingComma
+    );
+  }
+
+  const childMimeType = !isArray && typeof (value as Record<string, unknown>).mimeType === 'string'
+    ? (value as Record<string, string>).mimeType
+    : undefined;
+  const entries: [string | number, unknown][] = isArray
+    ? value.slice(0, shown).map((item, index) => [index, item])
+    : keys.slice(0, shown).map(key => [key, (value as Record<string, unknown>)[key]]);
+  const remaining = size - shown;
+
+  return (
+    <div>
+      {line(<span style={{ color: colors.punctuation }}>{open}</span>, null)}
+      <div style={{ marginLeft: '1rem' }}>
+        {entries.map(([key, item], index) => (
+          <JsonNode
+            key={key}
+            value={item}
+            path={childPath(path, key)}
+            name={isArray ? undefined : String(key)}
+            depth={depth + 1}
+            comma={index < size - 1}
+            mimeType={childMimeType}
+          />
+        ))}
+        {remaining > 0 && (
+          <div style={{ paddingLeft: '1rem' }}>
+            <button onClick={() => setShown(shown + ENTRY_CHUNK)} style={linkButtonStyle}>
+              show {Math.min(remaining, ENTRY_CHUNK)} more ({remaining.toLocaleString()} remaining)
+            </button>
+            {remaining > ENTRY_CHUNK && (
+              <button onClick={() => setShown(size)} style={{ ...linkButtonStyle, marginLeft: '0.75rem' }}>
+                show all
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <div style={{ paddingLeft: '1rem' }}>
+        <span style={{ color: colors.punctuation }}>{close}</span>
+        {trailingComma}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Syntax-highlighted JSON for the dark event list. Deep levels start
+ * collapsed, and hovering a line offers to copy its value or JSONPath.
+ */
+export default function JsonViewer({ data }: { data: unknown }) {
+  return <JsonNode value={data} path="$" depth={0} comma={false} />;
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { LOG_LEVELS, LogEntry, LogLevel, formatLogData, severity } from "@/lib/logging";
+
+const buttonClass = "px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+const selectClass = "px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm";
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-blue-700',
+  notice: 'text-teal-700',
+  warning: 'text-yellow-700',
+  error: 'text-red-600',
+  critical: 'text-red-700 font-semibold',
+  alert: 'text-red-700 font-semibold',
+  emergency: 'text-red-800 font-bold'
+};
+
+/**
+ * Server log messages in columns, filtered by minimum level. The level picker
+ * sends logging/setLevel, which changes what the server sends at all.
+ */
+export default function LogConsole({ entries, connected, canSetLevel, serverLevel, onSetLevel, onJump, onClear }: {
+  entries: LogEntry[];
+  connected: boolean;
+  canSetLevel: boolean;
+  serverLevel: LogLevel | null;
+  onSetLevel: (level: LogLevel) => void;
+  onJump: (eventId: string) => void;
+  onClear: () => void;
+}) {
+  const [minLevel, setMinLevel] = useState<LogLevel>('debug');
+  const [logger, setLogger] = useState('');
+
+  const loggers = Array.from(new Set(entries.map(entry => entry.logger).filter((name): name is string => !!name)));
+  const visible = entries.filter(entry =>
+    severity(entry.level) >= severity(minLevel) && (!logger || entry.logger === logger)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-700">Show</label>
+          <select value={minLevel} onChange={e => setMinLevel(e.target.value as LogLevel)} className={selectClass}>
+            {LOG_LEVELS.map(level => <option key={level} value={level}>{level} and above</option>)}
+          </select>
+          {loggers.length > 0 && (
+            <select value={logger} onChange={e => setLogger(e.target.value)} className={selectClass}>
+              <option value="">All loggers</option>
+              {loggers.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-700" title="Sends logging/setLevel">Server level</label>
+          <select
+            value={serverLevel ?? ''}
+            onChange={e => onSetLevel(e.target.value as LogLevel)}
+            disabled={connected && !canSetLevel}
+            className={`${selectClass} disabled:opacity-50`}
+            title={connected && !canSetLevel ? 'Server does not declare the logging capability' : undefined}
+          >
+            <option value="" disabled>{connected ? 'Not set' : 'Load request…'}</option>
+            {LOG_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+          <button onClick={onClear} disabled={entries.length === 0} className={buttonClass}>Clear</button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Log messages from the server (notifications/message) will appear here.</p>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="max-h-[480px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 text-left sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-medium w-24">Time</th>
+                  <th className="px-3 py-2 font-medium w-24">Level</th>
+                  <th className="px-3 py-2 font-medium w-40">Logger</th>
+                  <th className="px-3 py-2 font-medium">Data</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-mono text-xs">
+                {visible.map(entry => (
+                  <tr key={entry.id} onClick={() => onJump(entry.eventId)} className="hover:bg-gray-50 cursor-pointer" title="Show in stream">
+                    <td className="px-3 py-1.5 text-gray-500 whitespace-nowrap">{entry.time}</td>
+                    <td className={`px-3 py-1.5 whitespace-nowrap ${LEVEL_CLASSES[entry.level]}`}>{entry.level}</td>
+                    <td className="px-3 py-1.5 text-gray-700 truncate max-w-[10rem]">{entry.logger ?? ''}</td>
+                    <td className="px-3 py-1.5 text-gray-900 whitespace-pre-wrap break-all">{formatLogData(entry.data)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visible.length < entries.length && (
+            <div className="px-3 py-2 bg-gray-50 text-xs text-gray-500 border-t border-gray-200">
+              {entries.length - visible.length} hidden by filters
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
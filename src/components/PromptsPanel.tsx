@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import ContentBlockView from "@/components/ContentBlockView";
+import { JsonRpcResponse, Prompt, PromptMessage } from "@/lib/mcp";
+
+const buttonClass = "px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+
+// Renders prompts/get messages as a chat transcript
+function Transcript({ response }: { response: JsonRpcResponse }) {
+  if (response.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+        Error {response.error.code}: {response.error.message}
+      </div>
+    );
+  }
+
+  const result = response.result || {};
+  const messages = Array.isArray(result.messages) ? result.messages as PromptMessage[] : [];
+
+  return (
+    <div className="space-y-3">
+      {typeof result.description === 'string' && (
+        <p className="text-sm text-gray-600 italic">{result.description}</p>
+      )}
+      {messages.map((message, index) => (
+        <div key={index} className={`flex ${message.role === 'assistant' ? 'justify-start' : 'justify-end'}`}>
+          <div className={`max-w-[85%] rounded-xl px-4 py-3 space-y-2 border ${
+            message.role === 'assistant' ? 'bg-gray-50 border-gray-200' : 'bg-blue-50 border-blue-200'
+          }`}>
+            <div className="text-xs font-medium text-gray-500 uppercase">{message.role}</div>
+            <ContentBlockView block={message.content} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Lists prompts, collects their arguments and previews the rendered messages. */
+export default function PromptsPanel({ prompts, connected, onList, onGet }: {
+  prompts: Prompt[];
+  connected: boolean;
+  onList: () => void;
+  onGet: (name: string, args: Record<string, string>) => Promise<JsonRpcResponse | null>;
+}) {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [response, setResponse] = useState<JsonRpcResponse | null>(null);
+
+  const selected = prompts.find(prompt => prompt.name === selectedName) || null;
+
+  function selectPrompt(prompt: Prompt) {
+    setSelectedName(prompt.name);
+    setArgs({});
+    setMissing([]);
+    setResponse(null);
+  }
+
+  async function getPrompt() {
+    if (!selected) return;
+    const required = (selected.arguments || []).filter(argument => argument.required && !args[argument.name]);
+    setMissing(required.map(argument => argument.name));
+    if (required.length > 0) return;
+
+    // Empty optional arguments are left out rather than sent as ""
+    const filled = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== ''));
+    setLoading(true);
+    try {
+      setResponse(await onGet(selected.name, filled));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">{prompts.length} prompts</span>
+          <button onClick={onList} className={buttonClass} title={connected ? 'Send prompts/list' : 'Load prompts/list into the request body'}>
+            ↻ List prompts
+          </button>
+        </div>
+        {prompts.length === 0 && (
+          <p className="text-sm text-gray-500">Run prompts/list to see the server&apos;s prompts here.</p>
+        )}
+        <div className="space-y-2 max-h-[480px] overflow-y-auto">
+          {prompts.map(prompt => (
+            <button
+              key={prompt.name}
+              onClick={() => selectPrompt(prompt)}
+              className={`w-full text-left px-3 py-2 border rounded-lg transition-colors ${
+                prompt.name === selectedName ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-900">{prompt.title || prompt.name}</div>
+              {prompt.title && <div className="text-xs font-mono text-gray-500">{prompt.name}</div>}
+              {prompt.description && <div className="text-xs text-gray-600 mt-1 line-clamp-2">{prompt.description}</div>}
+              {prompt.arguments && prompt.arguments.length > 0 && (
+                <div className="text-xs text-gray-400 mt-1">
+                  {prompt.arguments.map(argument => argument.required ? `${argument.name}*` : argument.name).join(', ')}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!selected && <p className="text-sm text-gray-500">Select a prompt to fill in its arguments.</p>}
+        {selected && (
+          <>
+            <div>
+              <h3 className="text-base font-semibold text-gray-900">{selected.title || selected.name}</h3>
+              {selected.description && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{selected.description}</p>}
+            </div>
+            {(selected.arguments || []).length === 0 && <p className="text-sm text-gray-500">No arguments.</p>}
+            <div className="space-y-3">
+              {(selected.arguments || []).map(argument => (
+                <div key={argument.name} className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {argument.title || argument.name}
+                    {argument.required && <span className="text-red-500 ml-1" title="Required">*</span>}
+                    {argument.title && <span className="ml-2 font-mono text-xs text-gray-400">{argument.name}</span>}
+                  </label>
+                  {argument.description && <p className="text-xs text-gray-500">{argument.description}</p>}
+                  <input
+                    value={args[argument.name] || ''}
+                    onChange={e => setArgs(prev => ({ ...prev, [argument.name]: e.target.value }))}
+                    className={`${inputClass} ${missing.includes(argument.name) ? 'border-red-300 bg-red-50' : ''}`}
+                  />
+                  {missing.includes(argument.name) && <p className="text-xs text-red-600">is required</p>}
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={getPrompt}
+              disabled={loading}
+              className="px-6 py-2 rounded-lg font-medium transition-colors bg-gray-900 hover:bg-gray-800 text-white disabled:opacity-50"
+            >
+              {connected ? (loading ? 'Loading…' : 'Get prompt') : 'Load into body'}
+            </button>
+            {response && <Transcript response={response} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
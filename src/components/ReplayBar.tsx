@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { ImportedSession } from "@/lib/sessionFile";
+
+const buttonClass = "px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+const primaryButtonClass = "px-3 py-1 bg-gray-900 hover:bg-gray-800 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50";
+
+const SPEEDS = [1, 2, 5, 10, 50];
+// Longer pauses are cut to this when "shorten pauses" is on
+const MAX_PAUSE_MS = 5000;
+
+/**
+ * Controls for an imported session: replays its events into the stream at
+ * the captured pace or faster.
+ */
+export default function ReplayBar({ session, progress, disabled, onReplay, onStop, onClose }: {
+  session: ImportedSession;
+  /** Events re-emitted so far, while a replay runs. */
+  progress: { played: number; total: number } | null;
+  disabled: boolean;
+  onReplay: (speed: number, maxGapMs: number) => void;
+  onStop: () => void;
+  onClose: () => void;
+}) {
+  const [speed, setSpeed] = useState(1);
+  const [shortenPauses, setShortenPauses] = useState(true);
+
+  const first = session.events[0]?.timestamp;
+  const last = session.events[session.events.length - 1]?.timestamp;
+  const durationMs = first && last ? Date.parse(last) - Date.parse(first) : 0;
+
+  return (
+    <div className="px-6 py-3 border-b border-gray-200 bg-blue-50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-gray-800 min-w-0">
+          <span className="font-medium">Imported session</span>
+          <span className="text-gray-600"> • {session.events.length} events • {(durationMs / 1000).toFixed(1)} s captured</span>
+          <div className="text-xs text-gray-500 font-mono truncate" title={session.sources.join('\n')}>
+            {session.sources.join(', ')}
+          </div>
+        </div>
+        <button onClick={onClose} className="text-xs text-gray-600 hover:text-gray-900 underline shrink-0">Close</button>
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        {progress ? (
+          <>
+            <button onClick={onStop} className={buttonClass}>■ Stop</button>
+            <div className="flex-1 min-w-[8rem] h-1.5 bg-blue-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${progress.total ? progress.played / progress.total * 100 : 100}%` }} />
+            </div>
+            <span className="text-xs text-gray-600 font-mono">{progress.played} / {progress.total}</span>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => onReplay(speed, shortenPauses ? MAX_PAUSE_MS : Infinity)}
+              disabled={disabled || session.events.length === 0}
+              className={primaryButtonClass}
+              title={disabled ? 'Stop the live stream to replay' : 'Clear the stream and re-emit the imported events'}
+            >
+              ▶ Replay
+            </button>
+            <select
+              value={speed}
+              onChange={e => setSpeed(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-900 text-sm"
+            >
+              {SPEEDS.map(option => <option key={option} value={option}>{option}×</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={shortenPauses}
+                onChange={e => setShortenPauses(e.target.checked)}
+                className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+              />
+              Shorten pauses over {MAX_PAUSE_MS / 1000} s
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { CODE_TARGETS, CodeRequest, CodeTarget, generateCode, parseCurl } from "@/lib/requestCode";
+
+const buttonClass = "px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+const primaryButtonClass = "px-3 py-1 bg-gray-900 hover:bg-gray-800 text-white rounded-lg transition-colors text-sm font-medium disabled:opacity-50";
+
+// The method picker only offers these
+const EDITABLE_METHODS = ['GET', 'POST'];
+
+/**
+ * "Export as code" for the configured request, with variables filled in, and
+ * "Import from cURL" to load a pasted command into the editor.
+ */
+export default function RequestCodePanel({ request, onImport }: {
+  request: CodeRequest;
+  onImport: (request: Omit<CodeRequest, 'transport'>) => void;
+}) {
+  const [mode, setMode] = useState<'export' | 'import'>('export');
+  const [target, setTarget] = useState<CodeTarget>('curl');
+  const [copied, setCopied] = useState(false);
+  const [command, setCommand] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const code = generateCode(target, request);
+
+  function copyCode() {
+    navigator.clipboard?.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    }).catch(() => {});
+  }
+
+  function importCommand() {
+    try {
+      const parsed = parseCurl(command);
+      if (!EDITABLE_METHODS.includes(parsed.method)) {
+        throw new Error(`${parsed.method} requests can't be edited here; only GET and POST are supported`);
+      }
+      onImport(parsed);
+      setImportError(null);
+      setCommand('');
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="flex border-b border-gray-200 bg-gray-50">
+        {(['export', 'import'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              mode === option ? 'text-gray-900 border-b-2 border-gray-900' : 'text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            {option === 'export' ? 'Export as code' : 'Import from cURL'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'export' ? (
+        <div className="p-3 space-y-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            {CODE_TARGETS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setTarget(option.id)}
+                className={`px-2 py-0.5 border rounded-full text-xs transition-colors ${
+                  target === option.id
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+            <button onClick={copyCode} className={`${buttonClass} ml-auto`}>{copied ? '✓ Copied' : '📋 Copy'}</button>
+          </div>
+          <pre className="bg-gray-900 text-gray-100 rounded-lg p-3 text-xs font-mono overflow-x-auto max-h-80">{code}</pre>
+          <p className="text-xs text-gray-500">Environment variables are filled in, so the snippet may contain secrets.</p>
+        </div>
+      ) : (
+        <div className="p-3 space-y-2">
+          <textarea
+            value={command}
+            onChange={e => setCommand(e.target.value)}
+            rows={5}
+            placeholder={"curl -N https://example.com/mcp \\\n  -H 'Content-Type: application/json' \\\n  --data-raw '{\"jsonrpc\":\"2.0\",\"id\":1,\"method\":\"tools/list\"}'"}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-400 text-xs font-mono"
+          />
+          {importError && <p className="text-xs text-red-600">{importError}</p>}
+          <div className="flex items-center gap-2">
+            <button onClick={importCommand} disabled={!command.trim()} className={primaryButtonClass}>Import</button>
+            <span className="text-xs text-gray-500">Replaces the URL, method and headers, and the body if the command has one.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { ResourceContents } from "@/lib/mcp";
+
+const preClass = "text-sm text-gray-800 whitespace-pre-wrap font-mono max-h-96 overflow-auto";
+
+function isJsonType(mimeType: string): boolean {
+  return mimeType === 'application/json' || mimeType.endsWith('+json');
+}
+
+function prettyJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+function base64Size(blob: string): number {
+  const padding = blob.endsWith('==') ? 2 : blob.endsWith('=') ? 1 : 0;
+  return Math.floor(blob.length * 3 / 4) - padding;
+}
+
+/** Renders one entry of resources/read contents according to its mimeType. */
+export default function ResourceContentView({ contents }: { contents: ResourceContents }) {
+  const mimeType = contents.mimeType || (contents.blob !== undefined ? 'application/octet-stream' : 'text/plain');
+
+  let body: ReactNode;
+  if (contents.blob !== undefined) {
+    const dataUrl = `data:${mimeType};base64,${contents.blob}`;
+    if (mimeType.startsWith('image/')) {
+      // eslint-disable-next-line @next/next/no-img-element
+      body = <img src={dataUrl} alt={contents.uri} className="max-w-full rounded" />;
+    } else if (mimeType.startsWith('audio/')) {
+      body = <audio controls src={dataUrl} />;
+    } else {
+      body = (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">
+            {base64Size(contents.blob)} bytes of binary data
+            <a href={dataUrl} download={contents.uri.split('/').pop() || 'resource'} className="ml-3 text-gray-900 underline">
+              Download
+            </a>
+          </div>
+          <pre className="text-xs text-gray-500 font-mono break-all whitespace-pre-wrap max-h-32 overflow-auto">
+            {contents.blob.slice(0, 512)}{contents.blob.length > 512 ? '…' : ''}
+          </pre>
+        </div>
+      );
+    }
+  } else if (mimeType === 'image/svg+xml' && contents.text) {
+    // eslint-disable-next-line @next/next/no-img-element
+    body = <img src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(contents.text)}`} alt={contents.uri} className="max-w-full rounded" />;
+  } else if (isJsonType(mimeType)) {
+    body = <pre className={preClass}>{prettyJson(contents.text ?? '')}</pre>;
+  } else {
+    body = <pre className={preClass}>{contents.text ?? ''}</pre>;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-gray-50 p-3 space-y-2">
+      <div className="flex justify-between gap-2 text-xs text-gray-500">
+        <span className="font-mono break-all">{contents.uri}</span>
+        <span className="shrink-0">{mimeType}</span>
+      </div>
+      {body}
+    </div>
+  );
+}
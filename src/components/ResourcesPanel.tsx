@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import ResourceContentView from "@/components/ResourceContentView";
+import { JsonRpcResponse, Resource, ResourceContents, ResourceTemplate } from "@/lib/mcp";
+import { expandTemplate, templateVariables } from "@/lib/uriTemplate";
+
+const buttonClass = "px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+
+type Selection =
+  | { kind: 'resource'; uri: string }
+  | { kind: 'template'; uriTemplate: string };
+
+function ReadResult({ response }: { response: JsonRpcResponse }) {
+  if (response.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+        Error {response.error.code}: {response.error.message}
+      </div>
+    );
+  }
+  const contents = Array.isArray(response.result?.contents) ? response.result.contents as ResourceContents[] : [];
+  if (contents.length === 0) {
+    return <p className="text-sm text-gray-500">The server returned no contents.</p>;
+  }
+  return (
+    <div className="space-y-3">
+      {contents.map((entry, index) => <ResourceContentView key={`${entry.uri}-${index}`} contents={entry} />)}
+    </div>
+  );
+}
+
+/**
+ * Lists resources and resource templates, reads them, and manages
+ * subscriptions. Resources the server reported as updated are highlighted
+ * until they are read again.
+ */
+export default function ResourcesPanel({
+  resources,
+  templates,
+  connected,
+  canSubscribe,
+  updatedUris,
+  listChanged,
+  onList,
+  onRead,
+  onSubscribe,
+  onSeen
+}: {
+  resources: Resource[];
+  templates: ResourceTemplate[];
+  connected: boolean;
+  canSubscribe: boolean;
+  updatedUris: string[];
+  listChanged: boolean;
+  onList: () => void;
+  onRead: (uri: string) => Promise<JsonRpcResponse | null>;
+  onSubscribe: (uri: string, subscribe: boolean) => Promise<JsonRpcResponse | null>;
+  onSeen: (uri: string) => void;
+}) {
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [response, setResponse] = useState<JsonRpcResponse | null>(null);
+  const [subscribed, setSubscribed] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const selectedResource = selection?.kind === 'resource'
+    ? resources.find(resource => resource.uri === selection.uri) || null
+    : null;
+  const selectedTemplate = selection?.kind === 'template'
+    ? templates.find(template => template.uriTemplate === selection.uriTemplate) || null
+    : null;
+  const targetUri = selectedResource
+    ? selectedResource.uri
+    : selectedTemplate ? expandTemplate(selectedTemplate.uriTemplate, templateValues) : null;
+
+  function select(next: Selection) {
+    setSelection(next);
+    setTemplateValues({});
+    setResponse(null);
+  }
+
+  async function read() {
+    if (!targetUri) return;
+    setBusy(true);
+    try {
+      const result = await onRead(targetUri);
+      setResponse(result);
+      if (result && !result.error) onSeen(targetUri);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleSubscription(uri: string) {
+    const subscribe = !subscribed.includes(uri);
+    setBusy(true);
+    try {
+      const result = await onSubscribe(uri, subscribe);
+      if (result && !result.error) {
+        setSubscribed(prev => subscribe ? [...prev, uri] : prev.filter(existing => existing !== uri));
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const itemClass = (active: boolean, updated: boolean) => `w-full text-left px-3 py-2 border rounded-lg transition-colors ${
+    updated ? 'border-yellow-400 bg-yellow-50' : active ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">{resources.length} resources • {templates.length} templates</span>
+          <button onClick={onList} className={buttonClass} title={connected ? 'Send resources/list and resources/templates/list' : 'Load resources/list into the request body'}>
+            ↻ List
+          </button>
+        </div>
+        {listChanged && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-xs text-yellow-800">
+            The server reported that its resource list changed. List again to refresh.
+          </div>
+        )}
+        <div className="space-y-2 max-h-[480px] overflow-y-auto">
+          {resources.map(resource => {
+            const updated = updatedUris.includes(resource.uri);
+            return (
+              <button
+                key={resource.uri}
+                onClick={() => select({ kind: 'resource', uri: resource.uri })}
+                className={itemClass(selection?.kind === 'resource' && selection.uri === resource.uri, updated)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900">{resource.title || resource.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {subscribed.includes(resource.uri) && <span title="Subscribed">🔔 </span>}
+                    {updated && <span className="text-yellow-700 font-medium">updated</span>}
+                  </span>
+                </div>
+                <div className="text-xs font-mono text-gray-500 break-all">{resource.uri}</div>
+                {resource.mimeType && <div className="text-xs text-gray-400">{resource.mimeType}</div>}
+              </button>
+            );
+          })}
+          {templates.length > 0 && <div className="text-xs font-medium text-gray-500 pt-2">Templates</div>}
+          {templates.map(template => (
+            <button
+              key={template.uriTemplate}
+              onClick={() => select({ kind: 'template', uriTemplate: template.uriTemplate })}
+              className={itemClass(selection?.kind === 'template' && selection.uriTemplate === template.uriTemplate, false)}
+            >
+              <div className="text-sm font-medium text-gray-900">{template.title || template.name}</div>
+              <div className="text-xs font-mono text-gray-500 break-all">{template.uriTemplate}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!selection && <p className="text-sm text-gray-500">Select a resource or template to read it.</p>}
+        {(selectedResource || selectedTemplate) && (
+          <>
+            <div>
+              <h3 className="text-base font-semibold text-gray-900">
+                {selectedResource ? selectedResource.title || selectedResource.name : selectedTemplate!.title || selectedTemplate!.name}
+              </h3>
+              {(selectedResource?.description || selectedTemplate?.description) && (
+                <p className="text-sm text-gray-600 mt-1">{selectedResource?.description || selectedTemplate?.description}</p>
+              )}
+            </div>
+
+            {selectedTemplate && (
+              <div className="space-y-3">
+                {templateVariables(selectedTemplate.uriTemplate).map(name => (
+                  <div key={name} className="space-y-1">
+                    <label className="block text-sm font-medium text-gray-700 font-mono">{name}</label>
+                    <input
+                      value={templateValues[name] || ''}
+                      onChange={e => setTemplateValues(prev => ({ ...prev, [name]: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+                <div className="text-xs text-gray-500">
+                  URI: <span className="font-mono text-gray-800 break-all">{targetUri}</span>
+                </div>
+              </div>
+            )}
+
+            {targetUri && updatedUris.includes(targetUri) && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-xs text-yellow-800">
+                The server reported an update for this resource. Read it again to see the new contents.
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={read}
+                disabled={busy}
+                className="px-6 py-2 rounded-lg font-medium transition-colors bg-gray-900 hover:bg-gray-800 text-white disabled:opacity-50"
+              >
+                {connected ? 'Read' : 'Load into body'}
+              </button>
+              {selectedResource && canSubscribe && connected && (
+                <button onClick={() => toggleSubscription(selectedResource.uri)} disabled={busy} className={buttonClass}>
+                  {subscribed.includes(selectedResource.uri) ? '🔕 Unsubscribe' : '🔔 Subscribe'}
+                </button>
+              )}
+            </div>
+
+            {response && <ReadResult response={response} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import { JsonSchema, SchemaViolation, childPath, defaultValue, resolveRef, schemaType } from "@/lib/jsonSchema";
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+const smallButtonClass = "px-2 py-1 border border-gray-300 rounded text-xs text-gray-600 hover:text-gray-800 hover:bg-gray-50 transition-colors";
+
+const INPUT_FORMATS: Record<string, string> = {
+  date: 'date',
+  'date-time': 'datetime-local',
+  email: 'email',
+  uri: 'url'
+};
+
+interface FieldProps {
+  schema: JsonSchema;
+  root: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  path: string;
+  violations: SchemaViolation[];
+}
+
+// Free-form JSON for schemas the form cannot express (anyOf, untyped values, ...)
+function JsonField({ value, onChange }: { value: unknown; onChange: (value: unknown) => void }) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <textarea
+      value={text}
+      rows={Math.min(8, Math.max(2, text.split('\n').length))}
+      onChange={e => {
+        setText(e.target.value);
+        if (!e.target.value.trim()) {
+          setInvalid(false);
+          onChange(undefined);
+          return;
+        }
+        try {
+          onChange(JSON.parse(e.target.value));
+          setInvalid(false);
+        } catch {
+          setInvalid(true);
+        }
+      }}
+      placeholder="JSON value"
+      className={`${inputClass} font-mono ${invalid ? 'bg-red-50 border-red-300' : ''}`}
+    />
+  );
+}
+
+function ScalarField({ schema, value, onChange }: Pick<FieldProps, 'schema' | 'value' | 'onChange'>) {
+  const type = schemaType(schema);
+
+  if (schema.enum) {
+    const index = schema.enum.findIndex(option => JSON.stringify(option) === JSON.stringify(value));
+    return (
+      <select
+        value={index}
+        onChange={e => {
+          const selected = Number(e.target.value);
+          onChange(selected < 0 ? undefined : schema.enum![selected]);
+        }}
+        className={inputClass}
+      >
+        <option value={-1}>—</option>
+        {schema.enum.map((option, i) => (
+          <option key={i} value={i}>{schema.enumNames?.[i] ?? String(option)}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        checked={value === true}
+        onChange={e => onChange(e.target.checked)}
+        className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+      />
+    );
+  }
+
+  if (type === 'number' || type === 'integer') {
+    return (
+      <input
+        type="number"
+        step={type === 'integer' ? 1 : 'any'}
+        min={schema.minimum}
+        max={schema.maximum}
+        value={typeof value === 'number' ? value : ''}
+        onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={inputClass}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={(schema.format && INPUT_FORMATS[schema.format]) || 'text'}
+      value={typeof value === 'string' ? value : ''}
+      onChange={e => onChange(e.target.value === '' ? undefined : e.target.value)}
+      placeholder={schema.format}
+      className={inputClass}
+    />
+  );
+}
+
+function ObjectField({ schema, root, value, onChange, path, violations }: FieldProps) {
+  const object = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+  return (
+    <div className="space-y-3">
+      {Object.entries(schema.properties || {}).map(([key, property]) => (
+        <SchemaField
+          key={key}
+          name={key}
+          required={schema.required?.includes(key) ?? false}
+          schema={property}
+          root={root}
+          value={object[key]}
+          onChange={propertyValue => {
+            const next = { ...object };
+            if (propertyValue === undefined) {
+              delete next[key];
+            } else {
+              next[key] = propertyValue;
+            }
+            onChange(next);
+          }}
+          path={childPath(path, key)}
+          violations={violations}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ArrayField({ schema, root, value, onChange, path, violations }: FieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = schema.items || {};
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2 items-start">
+          <div className="flex-1">
+            <FieldInput
+              schema={itemSchema}
+              root={root}
+              value={item}
+              onChange={itemValue => onChange(items.map((existing, i) => i === index ? itemValue : existing))}
+              path={childPath(path, index)}
+              violations={violations}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className={smallButtonClass}
+            title="Remove item"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...items, defaultValue(itemSchema)])}
+        className={smallButtonClass}
+      >
+        + Add item
+      </button>
+    </div>
+  );
+}
+
+function FieldInput(props: FieldProps) {
+  const { schema, root } = props;
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, root);
+    return target ? <FieldInput {...props} schema={target} /> : <JsonField value={props.value} onChange={props.onChange} />;
+  }
+
+  const type = schemaType(schema);
+  if (schema.anyOf || schema.oneOf || !type) {
+    return <JsonField value={props.value} onChange={props.onChange} />;
+  }
+  if (type === 'object') {
+    return schema.properties
+      ? <div className="pl-3 border-l-2 border-gray-200"><ObjectField {...props} /></div>
+      : <JsonField value={props.value} onChange={props.onChange} />;
+  }
+  if (type === 'array') {
+    return <ArrayField {...props} />;
+  }
+  return <ScalarField schema={schema} value={props.value} onChange={props.onChange} />;
+}
+
+function SchemaField({ name, required, ...props }: FieldProps & { name: string; required: boolean }) {
+  const errors = props.violations.filter(violation => violation.path === props.path);
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-gray-700">
+        {props.schema.title || name}
+        {required && <span className="text-red-500 ml-1" title="Required">*</span>}
+        {props.schema.title && <span className="ml-2 font-mono text-xs text-gray-400">{name}</span>}
+      </label>
+      {props.schema.description && (
+        <p className="text-xs text-gray-500">{props.schema.description}</p>
+      )}
+      <FieldInput {...props} />
+      {errors.map(error => (
+        <p key={error.message} className="text-xs text-red-600">{error.message}</p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Renders a form for an object schema. The value is the plain JSON object being
+ * built; violations (from validateSchema) are shown under the fields they concern.
+ */
+export default function SchemaForm({ schema, value, onChange, violations = [] }: {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  violations?: SchemaViolation[];
+}) {
+  if (schemaType(schema) !== 'object' || !schema.properties || Object.keys(schema.properties).length === 0) {
+    return <p className="text-sm text-gray-500">No arguments.</p>;
+  }
+
+  return (
+    <ObjectField
+      schema={schema}
+      root={schema}
+      value={value}
+      onChange={onChange}
+      path="$"
+      violations={violations}
+    />
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import ContentBlockView from "@/components/ContentBlockView";
+import SchemaForm from "@/components/SchemaForm";
+import { JsonRpcRequest } from "@/lib/mcp";
+import { SchemaViolation, defaultValue, validateSchema } from "@/lib/jsonSchema";
+import {
+  ElicitationAction,
+  Root,
+  SamplingParams,
+  ServerRequestReply,
+  USER_REJECTED,
+  elicitationParams,
+  samplingParams
+} from "@/lib/serverRequests";
+
+const buttonClass = "px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-xs font-medium disabled:opacity-50";
+const primaryButtonClass = "px-3 py-1.5 bg-gray-900 hover:bg-gray-800 text-white rounded-lg transition-colors text-xs font-medium disabled:opacity-50";
+const inputClass = "w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm";
+
+type Respond = (reply: ServerRequestReply) => void;
+
+function lastMessageText(params: SamplingParams): string {
+  const last = params.messages[params.messages.length - 1];
+  return last?.content.type === 'text' ? String(last.content.text ?? '') : '';
+}
+
+const CANNED_REPLIES: { label: string; text: (params: SamplingParams) => string }[] = [
+  { label: 'Echo the last message', text: lastMessageText },
+  { label: 'Acknowledge', text: () => 'OK.' },
+  { label: 'Empty reply', text: () => '' }
+];
+
+function SamplingForm({ params, onRespond }: { params: SamplingParams; onRespond: Respond }) {
+  const [text, setText] = useState('');
+  const [model, setModel] = useState('mcp-online-manual');
+
+  const hints = params.modelPreferences?.hints?.map(hint => hint.name).filter(Boolean) || [];
+
+  return (
+    <div className="space-y-2">
+      {params.systemPrompt && (
+        <div className="text-xs text-gray-600">
+          <span className="font-medium">System:</span> {params.systemPrompt}
+        </div>
+      )}
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {params.messages.map((message, index) => (
+          <div key={index} className={`border rounded-lg p-2 ${message.role === 'user' ? 'border-gray-200 bg-gray-50' : 'border-blue-200 bg-blue-50'}`}>
+            <div className="text-xs font-medium text-gray-500 mb-1">{message.role}</div>
+            <ContentBlockView block={message.content} />
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-gray-500">
+        {params.maxTokens !== undefined && `max ${params.maxTokens} tokens`}
+        {params.temperature !== undefined && ` • temperature ${params.temperature}`}
+        {hints.length > 0 && ` • model hints: ${hints.join(', ')}`}
+      </div>
+      <div className="flex gap-2">
+        <select
+          value=""
+          onChange={e => {
+            const canned = CANNED_REPLIES[Number(e.target.value)];
+            if (canned) setText(canned.text(params));
+          }}
+          className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-900 text-sm"
+        >
+          <option value="">Canned reply…</option>
+          {CANNED_REPLIES.map((canned, index) => <option key={canned.label} value={index}>{canned.label}</option>)}
+        </select>
+        <input value={model} onChange={e => setModel(e.target.value)} placeholder="Model name" className={inputClass} />
+      </div>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        rows={3}
+        placeholder="Assistant reply"
+        className={`${inputClass} font-mono`}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onRespond({
+            result: { role: 'assistant', content: { type: 'text', text }, model: model || 'mcp-online-manual', stopReason: 'endTurn' }
+          })}
+          className={primaryButtonClass}
+        >
+          Send reply
+        </button>
+        <button onClick={() => onRespond({ error: { code: USER_REJECTED, message: 'User rejected sampling request' } })} className={buttonClass}>
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ElicitationForm({ params, onRespond }: { params: ReturnType<typeof elicitationParams>; onRespond: Respond }) {
+  const [content, setContent] = useState<unknown>(() => defaultValue(params.requestedSchema) ?? {});
+  const [violations, setViolations] = useState<SchemaViolation[]>([]);
+
+  function respond(action: ElicitationAction) {
+    if (action !== 'accept') {
+      onRespond({ result: { action } });
+      return;
+    }
+    const found = validateSchema(content, params.requestedSchema);
+    setViolations(found);
+    if (found.length === 0) onRespond({ result: { action, content } });
+  }
+
+  return (
+    <div className="space-y-2">
+      {params.message && <p className="text-sm text-gray-800 whitespace-pre-wrap">{params.message}</p>}
+      <SchemaForm schema={params.requestedSchema} value={content} onChange={value => setContent(value ?? {})} violations={violations} />
+      {violations.length > 0 && (
+        <ul className="text-xs text-red-600 font-mono">
+          {violations.map((violation, index) => <li key={index}>{violation.path} {violation.message}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => respond('accept')} className={primaryButtonClass}>Accept</button>
+        <button onClick={() => respond('decline')} className={buttonClass}>Decline</button>
+        <button onClick={() => respond('cancel')} className={buttonClass}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+function RootsForm({ roots, onRespond }: { roots: Root[]; onRespond: Respond }) {
+  return (
+    <div className="space-y-2">
+      {roots.length === 0 ? (
+        <p className="text-xs text-gray-500">No roots configured; add them under Client capabilities to share directories.</p>
+      ) : (
+        <ul className="text-xs text-gray-700 font-mono space-y-0.5">
+          {roots.map(root => <li key={root.uri}>{root.uri}{root.name && <span className="text-gray-500"> ({root.name})</span>}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button onClick={() => onRespond({ result: { roots } })} className={primaryButtonClass}>
+          Send {roots.length} {roots.length === 1 ? 'root' : 'roots'}
+        </button>
+        <button onClick={() => onRespond({ error: { code: USER_REJECTED, message: 'User rejected roots request' } })} className={buttonClass}>
+          Reject
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** A server-to-client request waiting for the tester to answer it. */
+export default function ServerRequestCard({ request, roots, onRespond }: {
+  request: JsonRpcRequest;
+  roots: Root[];
+  onRespond: Respond;
+}) {
+  return (
+    <div className="border border-yellow-300 bg-yellow-50 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900 font-mono">{request.method}</span>
+        <span className="text-xs text-gray-500 font-mono">#{String(request.id)}</span>
+      </div>
+      {request.method === 'sampling/createMessage' && <SamplingForm params={samplingParams(request.params)} onRespond={onRespond} />}
+      {request.method === 'elicitation/create' && <ElicitationForm params={elicitationParams(request.params)} onRespond={onRespond} />}
+      {request.method === 'roots/list' && <RootsForm roots={roots} onRespond={onRespond} />}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import ContentBlockView from "@/components/ContentBlockView";
+import SchemaForm from "@/components/SchemaForm";
+import { ContentBlock, JsonRpcResponse, Tool, ToolAnnotations } from "@/lib/mcp";
+import { SchemaViolation, defaultValue, validateSchema } from "@/lib/jsonSchema";
+
+const buttonClass = "px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50";
+
+const ANNOTATION_LABELS: { key: keyof ToolAnnotations; label: string; className: string }[] = [
+  { key: 'readOnlyHint', label: 'read-only', className: 'bg-green-50 text-green-700 border-green-200' },
+  { key: 'destructiveHint', label: 'destructive', className: 'bg-red-50 text-red-700 border-red-200' },
+  { key: 'idempotentHint', label: 'idempotent', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  { key: 'openWorldHint', label: 'open world', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' }
+];
+
+function AnnotationBadges({ annotations }: { annotations?: ToolAnnotations }) {
+  if (!annotations) return null;
+  return (
+    <div className="flex gap-1 flex-wrap mt-1">
+      {ANNOTATION_LABELS.filter(({ key }) => annotations[key] === true).map(({ key, label, className }) => (
+        <span key={key} className={`px-2 py-0.5 rounded-full border text-xs ${className}`}>{label}</span>
+      ))}
+    </div>
+  );
+}
+
+// Renders the content blocks of a CallToolResult
+function ToolResult({ response }: { response: JsonRpcResponse }) {
+  if (response.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+        Error {response.error.code}: {response.error.message}
+      </div>
+    );
+  }
+
+  const result = response.result || {};
+  const content = Array.isArray(result.content) ? result.content as ContentBlock[] : [];
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-2 ${result.isError ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+      {result.isError === true && <div className="text-xs font-medium text-red-700">Tool reported an error</div>}
+      {content.map((block, index) => <ContentBlockView key={index} block={block} />)}
+      {result.structuredContent !== undefined && (
+        <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono">{JSON.stringify(result.structuredContent, null, 2)}</pre>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lists the tools from the last tools/list result and builds tools/call
+ * requests from each tool's inputSchema.
+ */
+export default function ToolsPanel({ tools, connected, onList, onCall }: {
+  tools: Tool[];
+  connected: boolean;
+  onList: () => void;
+  onCall: (name: string, args: Record<string, unknown>) => Promise<JsonRpcResponse | null>;
+}) {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [args, setArgs] = useState<unknown>({});
+  const [violations, setViolations] = useState<SchemaViolation[]>([]);
+  const [calling, setCalling] = useState(false);
+  const [response, setResponse] = useState<JsonRpcResponse | null>(null);
+
+  const selected = tools.find(tool => tool.name === selectedName) || null;
+
+  function selectTool(tool: Tool) {
+    setSelectedName(tool.name);
+    setArgs(defaultValue(tool.inputSchema) ?? {});
+    setViolations([]);
+    setResponse(null);
+  }
+
+  async function callTool(skipValidation = false) {
+    if (!selected) return;
+    const found = validateSchema(args, selected.inputSchema);
+    setViolations(found);
+    if (found.length > 0 && !skipValidation) return;
+
+    setCalling(true);
+    try {
+      setResponse(await onCall(selected.name, (args ?? {}) as Record<string, unknown>));
+    } finally {
+      setCalling(false);
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">{tools.length} tools</span>
+          <button onClick={onList} className={buttonClass} title={connected ? 'Send tools/list' : 'Load tools/list into the request body'}>
+            ↻ List tools
+          </button>
+        </div>
+        {tools.length === 0 && (
+          <p className="text-sm text-gray-500">Run tools/list to see the server&apos;s tools here.</p>
+        )}
+        <div className="space-y-2 max-h-[480px] overflow-y-auto">
+          {tools.map(tool => (
+            <button
+              key={tool.name}
+              onClick={() => selectTool(tool)}
+              className={`w-full text-left px-3 py-2 border rounded-lg transition-colors ${
+                tool.name === selectedName ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-900">{tool.title || tool.annotations?.title || tool.name}</div>
+              {(tool.title || tool.annotations?.title) && <div className="text-xs font-mono text-gray-500">{tool.name}</div>}
+              {tool.description && <div className="text-xs text-gray-600 mt-1 line-clamp-2">{tool.description}</div>}
+              <AnnotationBadges annotations={tool.annotations} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!selected && <p className="text-sm text-gray-500">Select a tool to fill in its arguments.</p>}
+        {selected && (
+          <>
+            <div>
+              <h3 className="text-base font-semibold text-gray-900">{selected.title || selected.name}</h3>
+              {selected.description && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{selected.description}</p>}
+            </div>
+            <SchemaForm
+              key={selected.name}
+              schema={selected.inputSchema}
+              value={args}
+              onChange={value => setArgs(value ?? {})}
+              violations={violations}
+            />
+            {violations.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <div className="text-sm text-red-700 font-medium">Arguments do not match the input schema:</div>
+                <ul className="mt-1 text-sm text-red-600 font-mono">
+                  {violations.map(violation => (
+                    <li key={`${violation.path}:${violation.message}`}>{violation.path} {violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => callTool()}
+                disabled={calling}
+                className="px-6 py-2 rounded-lg font-medium transition-colors bg-gray-900 hover:bg-gray-800 text-white disabled:opacity-50"
+              >
+                {connected ? (calling ? 'Calling…' : 'Call tool') : 'Load into body'}
+              </button>
+              {violations.length > 0 && (
+                <button onClick={() => callTool(true)} disabled={calling} className={buttonClass}>
+                  Send anyway
+                </button>
+              )}
+            </div>
+            {response && <ToolResult response={response} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
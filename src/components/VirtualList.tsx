@@ -0,0 +1,141 @@
+"use client";
+
+import { CSSProperties, ReactNode, Ref, useCallback, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from "react";
+
+export interface VirtualListHandle {
+  scrollToKey: (key: string) => void;
+  scrollToEnd: () => void;
+}
+
+// How far from the bottom still counts as "at the end"
+const END_THRESHOLD = 40;
+
+/**
+ * A scroll container that only renders the rows near the viewport. Rows can
+ * have any height: each one is measured once rendered and estimated until then.
+ */
+export default function VirtualList<T>({
+  ref,
+  items,
+  getKey,
+  renderItem,
+  height,
+  estimateHeight = 120,
+  overscan = 800,
+  followEnd = false,
+  onScroll,
+  placeholder,
+  style
+}: {
+  ref?: Ref<VirtualListHandle>;
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  height: number;
+  estimateHeight?: number;
+  /** Pixels rendered beyond each edge of the viewport. */
+  overscan?: number;
+  /** Keep the view pinned to the last row as rows arrive or grow. */
+  followEnd?: boolean;
+  onScroll?: (atEnd: boolean) => void;
+  placeholder?: ReactNode;
+  style?: CSSProperties;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const keysRef = useRef<string[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [heights, setHeights] = useState(() => new Map<string, number>());
+
+  // Offsets are recomputed per render; summing a few thousand numbers is cheap next to rendering rows
+  const keys = items.map(getKey);
+  const offsets: number[] = new Array(keys.length + 1);
+  offsets[0] = 0;
+  keys.forEach((key, index) => {
+    offsets[index + 1] = offsets[index] + (heights.get(key) ?? estimateHeight);
+  });
+  const total = offsets[keys.length];
+
+  let first = 0;
+  while (first < keys.length && offsets[first + 1] < scrollTop - overscan) first++;
+  let last = first;
+  while (last < keys.length && offsets[last] < scrollTop + height + overscan) last++;
+
+  useEffect(() => {
+    keysRef.current = keys;
+  });
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (followEnd && container && container.scrollHeight - container.scrollTop - container.clientHeight > 1) {
+      container.scrollTop = container.scrollHeight;
+    }
+  });
+
+  useImperativeHandle(ref, () => ({
+    scrollToKey(key: string) {
+      const container = containerRef.current;
+      const index = keys.indexOf(key);
+      if (!container || index === -1) return;
+      container.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      const rowHeight = offsets[index + 1] - offsets[index];
+      container.scrollTop = Math.max(0, offsets[index] - (height - rowHeight) / 2);
+    },
+    scrollToEnd() {
+      const container = containerRef.current;
+      if (container) container.scrollTop = container.scrollHeight;
+    }
+  }));
+
+  const measure = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    observerRef.current ??= new ResizeObserver(entries => {
+      const measured = entries
+        .map(entry => entry.target as HTMLElement)
+        .filter(target => target.isConnected && target.dataset.key !== undefined)
+        .map(target => [target.dataset.key!, target.offsetHeight] as const);
+      setHeights(prev => {
+        let next: Map<string, number> | null = null;
+        for (const [key, rowHeight] of measured) {
+          if (prev.get(key) === rowHeight) continue;
+          next ??= new Map(prev);
+          next.set(key, rowHeight);
+        }
+        // Forget rows that are gone, e.g. dropped by a retention cap
+        if (next && next.size > keysRef.current.length * 2 + 100) {
+          const current = new Set(keysRef.current);
+          for (const key of next.keys()) {
+            if (!current.has(key)) next.delete(key);
+          }
+        }
+        return next ?? prev;
+      });
+    });
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  function handleScroll() {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
+    onScroll?.(container.scrollHeight - container.scrollTop - container.clientHeight < END_THRESHOLD);
+  }
+
+  return (
+    <div ref={containerRef} onScroll={handleScroll} style={{ ...style, height: `${height}px`, overflowY: 'auto' }}>
+      {items.length === 0 && placeholder}
+      <div style={{ height: `${offsets[first]}px` }} />
+      {items.slice(first, last).map((item, index) => (
+        // flow-root keeps the row's margins inside the measured box
+        <div key={keys[first + index]} data-key={keys[first + index]} ref={measure} style={{ display: 'flow-root' }}>
+          {renderItem(item)}
+        </div>
+      ))}
+      <div style={{ height: `${total - offsets[last]}px` }} />
+    </div>
+  );
+}
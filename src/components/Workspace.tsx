@@ -0,0 +1,2714 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo, useSyncExternalStore } from "react";
+import { SSEMessage, createSSEParser } from "@/lib/sse";
+import { PROXY_ERROR_HEADER, encodeProxyHeaders, proxyUrl } from "@/lib/proxy";
+import ToolsPanel from "@/components/ToolsPanel";
+import ResourcesPanel from "@/components/ResourcesPanel";
+import PromptsPanel from "@/components/PromptsPanel";
+import CollectionsSidebar from "@/components/CollectionsSidebar";
+import EnvironmentEditor from "@/components/EnvironmentEditor";
+import ConformancePanel from "@/components/ConformancePanel";
+import ComparePanel, { CompareSides } from "@/components/ComparePanel";
+import ServerRequestCard from "@/components/ServerRequestCard";
+import LogConsole from "@/components/LogConsole";
+import ReplayBar from "@/components/ReplayBar";
+import RequestCodePanel from "@/components/RequestCodePanel";
+import EventFilterBar from "@/components/EventFilterBar";
+import EventItem, { EventItemActions } from "@/components/EventItem";
+import VirtualList, { VirtualListHandle } from "@/components/VirtualList";
+import { Collection, SavedRequest, loadCollections, saveCollections, subscribeCollections } from "@/lib/collections";
+import {
+  OAUTH_CALLBACK_PATH,
+  StoredAuthorization,
+  WwwAuthenticate,
+  authorize,
+  findAuthorization,
+  forgetAuthorization,
+  isExpired,
+  loadAuthorization,
+  openAuthorizationPopup,
+  parseWwwAuthenticate,
+  readAuthorizations,
+  refreshAuthorization,
+  saveAuthorization,
+  subscribeAuthorizations
+} from "@/lib/oauth";
+import {
+  Environment,
+  environmentVariables,
+  hasPlaceholders,
+  loadEnvironments,
+  resolveJsonVariables,
+  resolveVariables,
+  saveEnvironments,
+  subscribeEnvironments
+} from "@/lib/environments";
+import { CheckResult, ConformanceReport, runConformance } from "@/lib/conformance";
+import { EMPTY_FILTER, EventFilter, filterEvents, formatExtracted, isFilterActive } from "@/lib/eventFilter";
+import { RpcInfo, StreamEvent } from "@/lib/streamEvents";
+import { LogEntry, LogLevel, parseLogMessage, severity } from "@/lib/logging";
+import { ImportedSession, exportSession, importSession, mergeSessions, replayDelays } from "@/lib/sessionFile";
+import { downloadFile } from "@/lib/download";
+import { CodeRequest } from "@/lib/requestCode";
+import { settingsKey } from "@/lib/workspaces";
+import {
+  CLIENT_FEATURES,
+  ClientFeature,
+  Root,
+  ServerRequestReply,
+  buildClientCapabilities,
+  buildReply,
+  featureForMethod,
+  rootUriError
+} from "@/lib/serverRequests";
+import { validateMcpPayload } from "@/lib/mcpSchema";
+import {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  LATEST_PROTOCOL_VERSION,
+  McpSession,
+  ProgressToken,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  SESSION_ID_HEADER,
+  Tool,
+  buildCancelledNotification,
+  buildInitializeRequest,
+  buildInitializedNotification,
+  createSession,
+  describeCapabilities,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isObject,
+  isJsonRpcResponse,
+  parseJsonRpcMessages,
+  progressTokenOf,
+  sessionHeaders,
+  setHeader,
+  withProgressToken
+} from "@/lib/mcp";
+
+interface Header {
+  id: string;
+  key: string;
+  value: string;
+}
+
+type ExplorerTab = 'tools' | 'resources' | 'prompts' | 'logs' | 'conformance' | 'compare';
+
+const EVENT_TYPES: StreamEvent['type'][] = ['connection', 'request', 'data', 'error', 'info'];
+
+type EventDetails = Pick<StreamEvent, 'eventName' | 'lastEventId' | 'retry' | 'marker' | 'rpc' | 'violations'>;
+
+type Transport = 'streamable-http' | 'sse';
+
+interface UserSettings {
+  url: string;
+  method: string;
+  transport: Transport;
+  headers: Header[];
+  body: string;
+  formatJson: boolean;
+  showTimestamps: boolean;
+  autoScroll: boolean;
+  maxEvents: number;
+  mcpClient: boolean;
+  reconnect: boolean;
+  reconnectDelay: number;
+  reconnectAttempts: number;
+  useProxy: boolean;
+  requestTimeout: number;
+  environmentId: string | null;
+  oauth: boolean;
+  oauthClientId: string;
+  validateMcp: boolean;
+  progressTokens: boolean;
+  clientFeatures: ClientFeature[];
+  roots: Root[];
+}
+
+// An outgoing request waiting for (or past) its response
+interface TrackedCall {
+  id: JsonRpcId;
+  eventId: string;
+  method: string;
+  sentAt: number;
+  progressToken?: ProgressToken;
+  /** Set once we stop waiting; a late response keeps this status. */
+  abandoned?: 'timeout' | 'cancelled';
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Where a dropped SSE stream picks up again
+interface StreamCursor {
+  lastEventId: string;
+  retry?: number;
+  received: number;
+}
+
+interface PendingRequest {
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/** What the tab bar shows about a workspace. */
+export interface WorkspaceStatus {
+  running: boolean;
+  url: string;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === "AbortError";
+}
+
+// Keeps 1 and "1" apart when ids are used as map keys
+function callKey(id: JsonRpcId): string {
+  return `${typeof id}:${id}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+}
+
+const defaultSettings: UserSettings = {
+  url: "https://",
+  method: "POST",
+  transport: 'streamable-http',
+  headers: [
+    { id: "1", key: "Content-Type", value: "application/json" },
+    { id: "2", key: "Accept", value: "text/event-stream" }
+  ],
+  body: `{
+  "jsonrpc": "2.0",
+  "id": 1,
+  "method": "tools/list",
+  "params": {}
+}`,
+  formatJson: true,
+  showTimestamps: true,
+  autoScroll: true,
+  maxEvents: 5000,
+  mcpClient: false,
+  reconnect: false,
+  reconnectDelay: 1000,
+  reconnectAttempts: 5,
+  useProxy: false,
+  requestTimeout: 60000,
+  environmentId: null,
+  oauth: true,
+  oauthClientId: '',
+  validateMcp: true,
+  progressTokens: true,
+  clientFeatures: ['sampling', 'elicitation', 'roots'],
+  roots: []
+};
+
+const MAX_RECONNECT_DELAY = 30000;
+
+function loadSettings(storageKey: string): UserSettings {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved) {
+      const settings: Partial<UserSettings> = JSON.parse(saved);
+      return {
+        url: settings.url || defaultSettings.url,
+        method: settings.method || defaultSettings.method,
+        transport: settings.transport || defaultSettings.transport,
+        headers: settings.headers || defaultSettings.headers,
+        body: settings.body || defaultSettings.body,
+        formatJson: settings.formatJson ?? defaultSettings.formatJson,
+        showTimestamps: settings.showTimestamps ?? defaultSettings.showTimestamps,
+        autoScroll: settings.autoScroll ?? defaultSettings.autoScroll,
+        maxEvents: settings.maxEvents ?? defaultSettings.maxEvents,
+        mcpClient: settings.mcpClient ?? defaultSettings.mcpClient,
+        reconnect: settings.reconnect ?? defaultSettings.reconnect,
+        reconnectDelay: settings.reconnectDelay ?? defaultSettings.reconnectDelay,
+        reconnectAttempts: settings.reconnectAttempts ?? defaultSettings.reconnectAttempts,
+        useProxy: settings.useProxy ?? defaultSettings.useProxy,
+        requestTimeout: settings.requestTimeout ?? defaultSettings.requestTimeout,
+        environmentId: settings.environmentId ?? defaultSettings.environmentId,
+        oauth: settings.oauth ?? defaultSettings.oauth,
+        oauthClientId: settings.oauthClientId ?? defaultSettings.oauthClientId,
+        validateMcp: settings.validateMcp ?? defaultSettings.validateMcp,
+        progressTokens: settings.progressTokens ?? defaultSettings.progressTokens,
+        clientFeatures: settings.clientFeatures ?? defaultSettings.clientFeatures,
+        roots: settings.roots ?? defaultSettings.roots
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to load settings from localStorage:', error);
+  }
+  return defaultSettings;
+}
+
+function validateJson(jsonString: string): { isValid: boolean; error?: string; formatted?: string } {
+  try {
+    const parsed = JSON.parse(jsonString);
+    const formatted = JSON.stringify(parsed, null, 2);
+    return { isValid: true, formatted };
+  } catch (error) {
+    return { 
+      isValid: false, 
+      error: error instanceof Error ? error.message : 'Invalid JSON' 
+    };
+  }
+}
+
+// Component for JSON syntax highlighting in textarea
+function JsonTextarea({ value, error, onChange, placeholder, rows }: {
+  value: string;
+  /** Parse error from the last format or send, shown until the next edit. */
+  error: string | null;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+}) {
+  const validation = validateJson(value);
+  const lineCount = value.split('\n').length;
+  
+  return (
+    <div className="relative">
+      <div className="flex">
+        {/* Line numbers */}
+        <div 
+          className="bg-gray-50 border-r border-gray-200 px-2 py-3 text-xs text-gray-500 font-mono select-none"
+          style={{
+            fontFamily: 'var(--font-geist-mono), Courier New, monospace',
+            lineHeight: '1.5',
+            minWidth: '3rem',
+            textAlign: 'right'
+          }}
+        >
+          {Array.from({ length: Math.max(lineCount, rows || 12) }, (_, i) => (
+            <div key={i + 1}>{i + 1}</div>
+          ))}
+        </div>
+        
+        {/* Textarea */}
+        <textarea 
+          value={value} 
+          onChange={e => onChange(e.target.value)} 
+          rows={rows || 12} 
+          className={`flex-1 px-4 py-3 border-0 focus:ring-2 focus:ring-gray-500 focus:outline-none bg-white text-gray-900 font-mono text-sm resize-none ${
+            error ? 'bg-red-50' : ''
+          }`}
+          placeholder={placeholder}
+          style={{
+            fontFamily: 'var(--font-geist-mono), Courier New, monospace',
+            lineHeight: '1.5'
+          }}
+        />
+      </div>
+      
+      {/* Border */}
+      <div className={`absolute inset-0 border rounded-lg pointer-events-none ${
+        error ? 'border-red-300' : 'border-gray-300'
+      }`}></div>
+      
+      {/* Status indicators */}
+      {error && (
+        <div className="absolute top-2 right-2 bg-red-100 border border-red-300 rounded px-2 py-1 text-xs text-red-700 z-10">
+          ⚠️ Invalid
+        </div>
+      )}
+      {!error && value && validation.isValid && (
+        <div className="absolute top-2 right-2 bg-green-100 border border-green-300 rounded px-2 py-1 text-xs text-green-700 z-10">
+          ✓ Valid JSON
+        </div>
+      )}
+      
+      {/* Character count */}
+      <div className="absolute bottom-2 right-2 bg-gray-100 border border-gray-200 rounded px-2 py-1 text-xs text-gray-500 z-10">
+        {value.length} chars
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One connection: the request editor, response stream and server explorer.
+ * Every workspace tab mounts its own, so several servers can run at once.
+ */
+export default function Workspace({ id, compact, onStatusChange }: {
+  id: string;
+  /** Narrow layout for the split view. */
+  compact: boolean;
+  onStatusChange: (id: string, status: WorkspaceStatus) => void;
+}) {
+  const storageKey = settingsKey(id);
+  // Read once: the page keys each workspace by its id, so the key never changes under it
+  const [initialSettings] = useState(() => loadSettings(storageKey));
+  const [url, setUrl] = useState(initialSettings.url);
+  const [method, setMethod] = useState(initialSettings.method);
+  const [transport, setTransport] = useState<Transport>(initialSettings.transport);
+  const [headers, setHeaders] = useState<Header[]>(initialSettings.headers);
+  const [body, setBody] = useState(initialSettings.body);
+  const [events, setEvents] = useState<StreamEvent[]>([]);
+  const [running, setRunning] = useState(false);
+  const [formatJson, setFormatJson] = useState(initialSettings.formatJson);
+  const [showTimestamps, setShowTimestamps] = useState(initialSettings.showTimestamps);
+  const [autoScroll, setAutoScroll] = useState(initialSettings.autoScroll);
+  const [maxEvents, setMaxEvents] = useState(initialSettings.maxEvents);
+  const [droppedEvents, setDroppedEvents] = useState(0);
+  const [following, setFollowing] = useState(true);
+  const [newEventCount, setNewEventCount] = useState(0);
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [mcpClient, setMcpClient] = useState(initialSettings.mcpClient);
+  const [session, setSession] = useState<McpSession | null>(null);
+  const [reconnect, setReconnect] = useState(initialSettings.reconnect);
+  const [reconnectDelay, setReconnectDelay] = useState(initialSettings.reconnectDelay);
+  const [reconnectAttempts, setReconnectAttempts] = useState(initialSettings.reconnectAttempts);
+  const [useProxy, setUseProxy] = useState(initialSettings.useProxy);
+  const [requestTimeout, setRequestTimeout] = useState(initialSettings.requestTimeout);
+  const [highlightedEventId, setHighlightedEventId] = useState<string | null>(null);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [resourceTemplates, setResourceTemplates] = useState<ResourceTemplate[]>([]);
+  const [updatedResources, setUpdatedResources] = useState<string[]>([]);
+  const [resourcesListChanged, setResourcesListChanged] = useState(false);
+  const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [explorerTab, setExplorerTab] = useState<ExplorerTab>('tools');
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  const [showCollections, setShowCollections] = useState(false);
+  const [environments, setEnvironments] = useState<Environment[]>(loadEnvironments);
+  const [environmentId, setEnvironmentId] = useState<string | null>(initialSettings.environmentId);
+  const [showEnvironments, setShowEnvironments] = useState(false);
+  const [showCode, setShowCode] = useState(false);
+  const [oauth, setOauth] = useState(initialSettings.oauth);
+  const [oauthClientId, setOauthClientId] = useState(initialSettings.oauthClientId);
+  const [validateMcp, setValidateMcp] = useState(initialSettings.validateMcp);
+  const [progressTokens, setProgressTokens] = useState(initialSettings.progressTokens);
+  const [clientFeatures, setClientFeatures] = useState<ClientFeature[]>(initialSettings.clientFeatures);
+  const [roots, setRoots] = useState<Root[]>(initialSettings.roots);
+  const [newRoot, setNewRoot] = useState<Root>({ uri: '', name: '' });
+  const [serverRequests, setServerRequests] = useState<JsonRpcRequest[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [logLevel, setLogLevel] = useState<LogLevel | null>(null);
+  const [eventFilter, setEventFilter] = useState<EventFilter>(EMPTY_FILTER);
+  const [importedSession, setImportedSession] = useState<ImportedSession | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [replay, setReplay] = useState<{ played: number; total: number } | null>(null);
+  const [compareSides, setCompareSides] = useState<CompareSides>([null, null]);
+
+  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const eventListRef = useRef<VirtualListHandle>(null);
+  // The event list is built here and handed to React at most once per frame
+  const eventBufferRef = useRef<StreamEvent[]>([]);
+  const addedSinceFlushRef = useRef(0);
+  const droppedSinceFlushRef = useRef(0);
+  const flushFrameRef = useRef<number | null>(null);
+  const logBufferRef = useRef<LogEntry[]>([]);
+  const logsChangedRef = useRef(false);
+  const logSeqRef = useRef(0);
+  const followingRef = useRef(true);
+  const sessionRef = useRef<McpSession | null>(null);
+  // Keyed by callKey, like callsRef, so 1 and "1" stay apart
+  const pendingRef = useRef(new Map<string, PendingRequest>());
+  const rpcIdRef = useRef(1);
+  const callsRef = useRef(new Map<string, TrackedCall>());
+  const endpointRef = useRef<string | null>(null);
+  const endpointWaiterRef = useRef<((endpoint: string) => void) | null>(null);
+  const authFlowRef = useRef<Promise<StoredAuthorization> | null>(null);
+  const replayControllerRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importFolderInputRef = useRef<HTMLInputElement>(null);
+
+  // Collections and environments are shared, so pick up edits made in other workspaces
+  useEffect(() => {
+    const unsubscribeCollections = subscribeCollections(() => setCollections(loadCollections()));
+    const unsubscribeEnvironments = subscribeEnvironments(() => setEnvironments(loadEnvironments()));
+    return () => {
+      unsubscribeCollections();
+      unsubscribeEnvironments();
+    };
+  }, []);
+
+  // Save settings to localStorage whenever they change
+  useEffect(() => {
+    const settings: UserSettings = {
+      url,
+      method,
+      transport,
+      headers,
+      body,
+      formatJson,
+      showTimestamps,
+      autoScroll,
+      maxEvents,
+      mcpClient,
+      reconnect,
+      reconnectDelay,
+      reconnectAttempts,
+      useProxy,
+      requestTimeout,
+      environmentId,
+      oauth,
+      oauthClientId,
+      validateMcp,
+      progressTokens,
+      clientFeatures,
+      roots
+    };
+    
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save settings to localStorage:', error);
+    }
+  }, [storageKey, url, method, transport, headers, body, formatJson, showTimestamps, autoScroll, maxEvents, mcpClient, reconnect, reconnectDelay, reconnectAttempts, useProxy, requestTimeout, environmentId, oauth, oauthClientId, validateMcp, progressTokens, clientFeatures, roots]);
+
+  // {{var}} placeholders are kept in the editor and only filled in when a request goes out
+  const variables = environmentVariables(environments.find(environment => environment.id === environmentId));
+  const resolvedUrl = resolve(url);
+
+  useEffect(() => {
+    onStatusChange(id, { running, url: resolvedUrl });
+  }, [id, running, resolvedUrl, onStatusChange]);
+
+  // Recomputed whenever events arrive so filters keep applying while streaming
+  const filteredEvents = useMemo(() => filterEvents(events, eventFilter), [events, eventFilter]);
+  const logCounts = useMemo(() => ({
+    errors: logs.filter(log => severity(log.level) >= severity('error')).length,
+    warnings: logs.filter(log => log.level === 'warning').length
+  }), [logs]);
+
+  function resolve(text: string): string {
+    return resolveVariables(text, variables).value;
+  }
+
+  // The body is JSON, so values landing inside string literals are escaped
+  function resolveBody(text: string): string {
+    return resolveJsonVariables(text, variables).value;
+  }
+
+  function undefinedVariables(includeBody: boolean): string[] {
+    const texts = [url, ...headers.filter(h => h.key.trim()).map(h => h.value), ...(includeBody ? [body] : [])];
+    return Array.from(new Set(texts.flatMap(text => resolveVariables(text, variables).missing)));
+  }
+
+  function warnUndefinedVariables(includeBody = true) {
+    const missing = undefinedVariables(includeBody);
+    if (missing.length > 0) {
+      pushEvent(`Undefined variables sent as-is: ${missing.map(name => `{{${name}}}`).join(', ')}`, 'info');
+    }
+  }
+
+  const missingVariables = undefinedVariables(true);
+  const activeEnvironmentName = environments.find(environment => environment.id === environmentId)?.name;
+
+  // Show the stored token of whichever server the URL points at; the server render has none
+  const storedAuthorizations = useSyncExternalStore(subscribeAuthorizations, readAuthorizations, () => null);
+  const authorization = useMemo(() => findAuthorization(storedAuthorizations, resolvedUrl), [storedAuthorizations, resolvedUrl]);
+
+  function updateEnvironments(next: Environment[]) {
+    setEnvironments(next);
+    saveEnvironments(next);
+    if (environmentId && !next.some(environment => environment.id === environmentId)) {
+      setEnvironmentId(null);
+    }
+  }
+
+  function updateCollections(next: Collection[]) {
+    setCollections(next);
+    saveCollections(next);
+  }
+
+  function loadSavedRequest(request: SavedRequest) {
+    setUrl(request.url);
+    setMethod(request.method);
+    // The transport of a live connection can't change under it
+    if (!running && (request.transport === 'streamable-http' || request.transport === 'sse')) {
+      setTransport(request.transport);
+    }
+    setHeaders(request.headers.map((header, index) => ({ id: `${Date.now()}-${index}`, ...header })));
+    setBody(request.body);
+    setJsonError(null);
+  }
+
+  function importCurlRequest(request: Omit<CodeRequest, 'transport'>) {
+    setUrl(request.url);
+    setMethod(request.method);
+    setHeaders(request.headers.map((header, index) => ({ id: `${Date.now()}-${index}`, ...header })));
+    if (request.body !== null) setBody(request.body);
+    setJsonError(null);
+  }
+
+  // Rows call back through a ref so their props stay stable and memoized rows skip re-rendering
+  const eventActionsRef = useRef<EventItemActions | null>(null);
+  useEffect(() => {
+    eventActionsRef.current = { jump: jumpToEvent, cancel: cancelCall, compare: compareEvent };
+  });
+  const eventActions = useMemo<EventItemActions>(() => ({
+    jump: eventId => eventActionsRef.current?.jump(eventId),
+    cancel: id => eventActionsRef.current?.cancel(id),
+    compare: eventId => eventActionsRef.current?.compare(eventId)
+  }), []);
+
+  // A running stream keeps calling the pushEvent it started with, so display
+  // settings changed mid-stream reach the buffer and flush through a ref
+  const displaySettingsRef = useRef({ formatJson, autoScroll, maxEvents });
+  useEffect(() => {
+    displaySettingsRef.current = { formatJson, autoScroll, maxEvents };
+  });
+
+  // The unmount cleanup below runs once, so it reaches the latest endSession through a ref
+  const endSessionRef = useRef<(() => Promise<void>) | null>(null);
+  useEffect(() => {
+    endSessionRef.current = endSession;
+  });
+
+  useEffect(() => () => {
+    if (flushFrameRef.current !== null) cancelAnimationFrame(flushFrameRef.current);
+    replayControllerRef.current?.abort();
+    // Closing the tab ends its stream, and its session on the server too
+    if (sessionRef.current) {
+      endSessionRef.current?.();
+    } else {
+      controllerRef.current?.abort();
+    }
+  }, []);
+
+  function addHeader() {
+    const newId = Date.now().toString();
+    setHeaders(prev => [...prev, { id: newId, key: "", value: "" }]);
+  }
+
+  function removeHeader(id: string) {
+    setHeaders(prev => prev.filter(h => h.id !== id));
+  }
+
+  function updateHeader(id: string, field: 'key' | 'value', value: string) {
+    setHeaders(prev => prev.map(h => h.id === id ? { ...h, [field]: value } : h));
+  }
+
+  function formatJsonContent(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  function detectEventType(raw: string): StreamEvent['type'] {
+    if (raw.includes('Connected to') || raw.includes('Status:')) return 'connection';
+    if (raw.includes('error') || raw.includes('Error') || raw.includes('aborted')) return 'error';
+    if (raw.includes('Stream closed')) return 'info';
+    return 'data';
+  }
+
+  function pushEvent(raw: string, type?: StreamEvent['type'], details?: EventDetails): string {
+    const trimmedRaw = raw.trim();
+    const eventType = type || detectEventType(trimmedRaw);
+    const now = new Date();
+    
+    return appendEvent({
+      id: Date.now().toString() + Math.random(),
+      time: now.toLocaleTimeString(),
+      timestamp: now.toISOString(),
+      raw: trimmedRaw,
+      formatted: displaySettingsRef.current.formatJson ? formatJsonContent(trimmedRaw) : null,
+      type: eventType,
+      ...details
+    });
+  }
+
+  function appendEvent(event: StreamEvent): string {
+    const buffer = eventBufferRef.current;
+    buffer.push(event);
+    addedSinceFlushRef.current++;
+    // Trimmed here rather than at flush time: frames stop in background tabs but streams don't
+    const { maxEvents } = displaySettingsRef.current;
+    if (maxEvents > 0 && buffer.length > maxEvents) {
+      const overflow = buffer.length - maxEvents;
+      buffer.splice(0, overflow);
+      droppedSinceFlushRef.current += overflow;
+    }
+    scheduleFlush();
+    return event.id;
+  }
+
+  // Logs share the event buffer's frame and retention cap
+  function appendLog(entry: LogEntry) {
+    const buffer = logBufferRef.current;
+    buffer.push(entry);
+    const { maxEvents } = displaySettingsRef.current;
+    if (maxEvents > 0 && buffer.length > maxEvents) {
+      buffer.splice(0, buffer.length - maxEvents);
+    }
+    logsChangedRef.current = true;
+    scheduleFlush();
+  }
+
+  function scheduleFlush() {
+    if (flushFrameRef.current === null) {
+      flushFrameRef.current = requestAnimationFrame(flushEvents);
+    }
+  }
+
+  // Hands everything pushed since the last frame to React in one render
+  function flushEvents() {
+    flushFrameRef.current = null;
+    setEvents(eventBufferRef.current.slice());
+    if (logsChangedRef.current) {
+      logsChangedRef.current = false;
+      setLogs(logBufferRef.current.slice());
+    }
+
+    const dropped = droppedSinceFlushRef.current;
+    droppedSinceFlushRef.current = 0;
+    if (dropped > 0) setDroppedEvents(prev => prev + dropped);
+
+    const added = addedSinceFlushRef.current;
+    addedSinceFlushRef.current = 0;
+    if (added > 0 && !(displaySettingsRef.current.autoScroll && followingRef.current)) {
+      setNewEventCount(prev => prev + added);
+    }
+  }
+
+  function resetEvents() {
+    eventBufferRef.current = [];
+    addedSinceFlushRef.current = 0;
+    droppedSinceFlushRef.current = 0;
+    setEvents([]);
+    setDroppedEvents(0);
+    setNewEventCount(0);
+  }
+
+  function resetLogs() {
+    logBufferRef.current = [];
+    logsChangedRef.current = false;
+    setLogs([]);
+  }
+
+  function followEvents(atEnd: boolean) {
+    followingRef.current = atEnd;
+    setFollowing(atEnd);
+    if (atEnd) setNewEventCount(0);
+  }
+
+  function showNewEvents() {
+    followEvents(true);
+    eventListRef.current?.scrollToEnd();
+  }
+
+  function updateRpcInfo(eventId: string, update: Partial<RpcInfo>) {
+    const buffer = eventBufferRef.current;
+    // Updates mostly hit recent events, so search from the end
+    for (let i = buffer.length - 1; i >= 0; i--) {
+      const e = buffer[i];
+      if (e.id !== eventId) continue;
+      if (e.rpc) {
+        buffer[i] = { ...e, rpc: { ...e.rpc, ...update } };
+        scheduleFlush();
+      }
+      return;
+    }
+  }
+
+  function describeMessage(message: JsonRpcMessage): RpcInfo {
+    if (isJsonRpcResponse(message)) {
+      return { kind: 'response', id: message.id, status: message.error ? 'error' : 'result', error: message.error };
+    }
+    if (isJsonRpcRequest(message)) {
+      return { kind: 'request', method: message.method, id: message.id };
+    }
+    return { kind: 'notification', method: message.method };
+  }
+
+  // Records a message we send and starts the clock on any requests inside it
+  function recordOutgoing(payload: string) {
+    const messages = parseJsonRpcMessages(payload);
+    const rpc = messages.length > 0 ? describeMessage(messages[0]) : undefined;
+    if (rpc?.kind === 'request') rpc.status = 'pending';
+    const eventId = pushEvent(payload, 'request', { rpc });
+
+    for (const message of messages) {
+      if (!isJsonRpcRequest(message)) continue;
+      if (typeof message.id === 'number') {
+        rpcIdRef.current = Math.max(rpcIdRef.current, message.id + 1);
+      }
+      const key = callKey(message.id);
+      const previous = callsRef.current.get(key);
+      if (previous) clearTimeout(previous.timer);
+      callsRef.current.set(key, {
+        id: message.id,
+        eventId,
+        method: message.method,
+        sentAt: performance.now(),
+        progressToken: progressTokenOf(message),
+        timer: setTimeout(() => timeOutCall(message.id), requestTimeout)
+      });
+    }
+  }
+
+  function timeOutCall(id: JsonRpcId) {
+    const call = callsRef.current.get(callKey(id));
+    if (!call || call.abandoned) return;
+    call.abandoned = 'timeout';
+    updateRpcInfo(call.eventId, { status: 'timeout' });
+
+    const pending = pendingRef.current.get(callKey(id));
+    if (pending) {
+      pendingRef.current.delete(callKey(id));
+      pending.reject(new Error(`${call.method} (id ${id}) timed out after ${requestTimeout}ms`));
+    }
+  }
+
+  // Shows progress on the request that asked for it; progress also restarts its timeout
+  function receiveProgress(params: Record<string, unknown>) {
+    if (typeof params.progress !== 'number') return;
+    const call = Array.from(callsRef.current.values()).find(candidate => candidate.progressToken === params.progressToken);
+    if (!call || call.abandoned) return;
+    clearTimeout(call.timer);
+    call.timer = setTimeout(() => timeOutCall(call.id), requestTimeout);
+    updateRpcInfo(call.eventId, {
+      progress: {
+        progress: params.progress,
+        total: typeof params.total === 'number' ? params.total : undefined,
+        message: typeof params.message === 'string' ? params.message : undefined
+      }
+    });
+  }
+
+  // Tells the server to stop working on one request; the transport stays up
+  async function cancelCall(id: JsonRpcId) {
+    const call = callsRef.current.get(callKey(id));
+    if (!call || call.abandoned) return;
+    call.abandoned = 'cancelled';
+    clearTimeout(call.timer);
+    updateRpcInfo(call.eventId, { status: 'cancelled' });
+
+    const pending = pendingRef.current.get(callKey(id));
+    if (pending) {
+      pendingRef.current.delete(callKey(id));
+      pending.reject(new DOMException(`${call.method} (id ${id}) cancelled`, 'AbortError'));
+    }
+    try {
+      await postMessage(buildCancelledNotification(id, 'Cancelled by user'));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        pushEvent(`Error sending notifications/cancelled: ${errorMessage(err)}`, 'error');
+      }
+    }
+  }
+
+  // Links a response to the request that caused it, in both directions
+  function settleCall(response: JsonRpcResponse, responseEventId: string): RpcInfo | undefined {
+    const call = callsRef.current.get(callKey(response.id));
+    if (!call) return undefined;
+    clearTimeout(call.timer);
+    callsRef.current.delete(callKey(response.id));
+
+    const latencyMs = Math.round(performance.now() - call.sentAt);
+    updateRpcInfo(call.eventId, {
+      // A late answer does not undo the timeout, but its latency is still worth seeing
+      status: call.abandoned ?? (response.error ? 'error' : 'result'),
+      latencyMs,
+      linkedEventId: responseEventId
+    });
+    return { method: call.method, latencyMs, linkedEventId: call.eventId, kind: 'response' };
+  }
+
+  function jumpToEvent(eventId: string) {
+    eventListRef.current?.scrollToKey(eventId);
+    setHighlightedEventId(eventId);
+    setTimeout(() => setHighlightedEventId(current => current === eventId ? null : current), 1500);
+  }
+
+  // Fills the empty compare slot, or moves B to A so the two latest picks are compared
+  function compareEvent(eventId: string) {
+    const event = eventBufferRef.current.find(e => e.id === eventId);
+    if (!event) return;
+    const rpc = event.rpc;
+    const description = rpc ? [rpc.kind, rpc.method, rpc.id !== undefined ? `#${String(rpc.id)}` : ''].filter(Boolean).join(' ') : event.type;
+    const side = { label: `${event.time} ${description}`, value: event.formatted ?? formatJsonContent(event.raw) ?? event.raw, eventId };
+    setCompareSides(([before, after]) => !before ? [side, after] : !after ? [before, side] : [after, side]);
+    setExplorerTab('compare');
+  }
+
+  function receiveEvent(message: SSEMessage, resumed: boolean) {
+    if (message.event === 'endpoint') {
+      const endpoint = new URL(message.data.trim(), resolvedUrl).toString();
+      endpointRef.current = endpoint;
+      pushEvent(`Status: POST endpoint ${endpoint}`, 'connection');
+      endpointWaiterRef.current?.(endpoint);
+      endpointWaiterRef.current = null;
+      return;
+    }
+    receiveData(message.data, {
+      eventName: message.event,
+      lastEventId: message.lastEventId || undefined,
+      retry: message.retry,
+      marker: resumed ? 'resumed' : undefined
+    });
+  }
+
+  // Shows a data event and hands any JSON-RPC responses to their waiting request
+  function receiveData(data: string, details?: EventDetails) {
+    if (!data.trim()) return;
+    const messages = parseJsonRpcMessages(data);
+    const isError = messages.some(message => isJsonRpcResponse(message) && message.error);
+    const rpc = messages.length > 0 ? describeMessage(messages[0]) : undefined;
+    // Plain-text data still goes through the substring detection
+    const type = messages.length === 0 ? undefined : isError ? 'error' : 'data';
+    const violations = validateMcp && (sessionRef.current || messages.length > 0)
+      ? validateMcpPayload(
+          data,
+          sessionRef.current?.protocolVersion ?? LATEST_PROTOCOL_VERSION,
+          id => callsRef.current.get(callKey(id))?.method
+        )
+      : [];
+    const eventId = pushEvent(data, type, { ...details, rpc, violations: violations.length > 0 ? violations : undefined });
+
+    messages.forEach((message, index) => {
+      if (!isJsonRpcResponse(message)) return;
+      const link = settleCall(message, eventId);
+      if (index === 0 && link && rpc) {
+        updateRpcInfo(eventId, { ...link, status: rpc.status, error: rpc.error });
+      }
+    });
+
+    for (const message of messages) {
+      if (isJsonRpcNotification(message)) {
+        receiveNotification(message.method, message.params || {}, eventId);
+        continue;
+      }
+      if (isJsonRpcRequest(message)) {
+        receiveServerRequest(message);
+        continue;
+      }
+      if (isJsonRpcResponse(message)) {
+        if (Array.isArray(message.result?.tools)) {
+          setTools(message.result.tools as Tool[]);
+        }
+        if (Array.isArray(message.result?.resources)) {
+          setResources(message.result.resources as Resource[]);
+        }
+        if (Array.isArray(message.result?.resourceTemplates)) {
+          setResourceTemplates(message.result.resourceTemplates as ResourceTemplate[]);
+        }
+        if (Array.isArray(message.result?.prompts)) {
+          setPrompts(message.result.prompts as Prompt[]);
+        }
+        const pending = pendingRef.current.get(callKey(message.id));
+        if (pending) {
+          pendingRef.current.delete(callKey(message.id));
+          pending.resolve(message);
+        }
+      }
+    }
+  }
+
+  function receiveNotification(notificationMethod: string, params: Record<string, unknown>, eventId: string) {
+    switch (notificationMethod) {
+      case 'notifications/message':
+        appendLog({
+          id: `${eventId}:${logSeqRef.current++}`,
+          time: new Date().toLocaleTimeString(),
+          eventId,
+          ...parseLogMessage(params)
+        });
+        break;
+      case 'notifications/resources/updated':
+        if (typeof params.uri === 'string') {
+          const uri = params.uri;
+          setUpdatedResources(prev => prev.includes(uri) ? prev : [...prev, uri]);
+        }
+        break;
+      case 'notifications/resources/list_changed':
+        setResourcesListChanged(true);
+        break;
+      case 'notifications/progress':
+        receiveProgress(params);
+        break;
+      case 'notifications/cancelled':
+        // The server gave up on one of its own requests, so its card has nothing left to answer
+        setServerRequests(prev => prev.filter(request => request.id !== params.requestId));
+        break;
+    }
+  }
+
+  // Requests from the server wait for an answer on a card unless we can answer them right away
+  function receiveServerRequest(request: JsonRpcRequest) {
+    if (!sessionRef.current) return;
+    if (request.method === 'ping') {
+      answerServerRequest(request, { result: {} });
+      return;
+    }
+    const feature = featureForMethod(request.method);
+    if (!feature || !clientFeatures.includes(feature)) {
+      answerServerRequest(request, { error: { code: -32601, message: `Method not found: ${request.method}` } });
+      return;
+    }
+    setServerRequests(prev => [...prev, request]);
+  }
+
+  async function answerServerRequest(request: JsonRpcRequest, reply: ServerRequestReply) {
+    setServerRequests(prev => prev.filter(pending => pending !== request));
+    try {
+      await postMessage(buildReply(request.id, reply));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        pushEvent(`Error answering ${request.method}: ${errorMessage(err)}`, 'error');
+      }
+    }
+  }
+
+  function updateRoots(next: Root[]) {
+    setRoots(next);
+    if (sessionRef.current && clientFeatures.includes('roots')) {
+      postMessage({ jsonrpc: "2.0", method: "notifications/roots/list_changed" }).catch(err => {
+        if (!isAbortError(err)) pushEvent(`Error sending roots/list_changed: ${errorMessage(err)}`, 'error');
+      });
+    }
+  }
+
+  function addRoot() {
+    const uri = newRoot.uri.trim();
+    if (!uri || rootUriError(uri) || roots.some(root => root.uri === uri)) return;
+    const name = newRoot.name?.trim();
+    updateRoots([...roots, name ? { uri, name } : { uri }]);
+    setNewRoot({ uri: '', name: '' });
+  }
+
+  function buildRequestHeaders(): Record<string, string> {
+    const requestHeaders: Record<string, string> = {};
+    headers.forEach(h => {
+      if (h.key.trim() && h.value.trim()) {
+        requestHeaders[h.key.trim()] = resolve(h.value.trim());
+      }
+    });
+    return requestHeaders;
+  }
+
+  function clearAuthorization() {
+    try {
+      forgetAuthorization(resolvedUrl);
+    } catch {
+      // Not a valid URL, so nothing was stored for it
+    }
+  }
+
+  async function refreshStoredAuthorization(current: StoredAuthorization): Promise<StoredAuthorization> {
+    const next = await refreshAuthorization(current, fetchUpstream);
+    saveAuthorization(next);
+    pushEvent(`OAuth: access token refreshed${next.expiresAt ? `, expires ${new Date(next.expiresAt).toLocaleTimeString()}` : ''}`, 'connection');
+    return next;
+  }
+
+  // The stored token for this server, refreshed first when it is about to expire
+  async function usableAuthorization(): Promise<StoredAuthorization | null> {
+    const current = loadAuthorization(resolvedUrl);
+    if (!current || !isExpired(current)) return current;
+    if (!current.refreshToken) return null;
+    try {
+      return await refreshStoredAuthorization(current);
+    } catch (err) {
+      pushEvent(`OAuth: token refresh failed (${errorMessage(err)})`, 'info');
+      return null;
+    }
+  }
+
+  /**
+   * Gets a new token after a 401: a refresh when possible, otherwise the full
+   * authorization flow. Concurrent 401s share one flow.
+   */
+  function obtainAuthorization(challenge: WwwAuthenticate | null, previous: StoredAuthorization | null): Promise<StoredAuthorization> {
+    if (!authFlowRef.current) {
+      authFlowRef.current = (async () => {
+        if (previous?.refreshToken) {
+          try {
+            return await refreshStoredAuthorization(previous);
+          } catch (err) {
+            pushEvent(`OAuth: token refresh failed (${errorMessage(err)}), authorizing again`, 'info');
+          }
+        }
+        const next = await authorize({
+          serverUrl: resolvedUrl,
+          challenge,
+          clientId: oauthClientId,
+          redirectUri: `${window.location.origin}${OAUTH_CALLBACK_PATH}`,
+          fetcher: fetchUpstream,
+          openAuthorization: openAuthorizationPopup,
+          onStatus: message => pushEvent(`OAuth: ${message}`, 'connection')
+        });
+        saveAuthorization(next);
+        pushEvent(`OAuth: authorized by ${next.issuer}${next.scope ? ` with scope "${next.scope}"` : ''}`, 'connection');
+        return next;
+      })().finally(() => {
+        authFlowRef.current = null;
+      });
+    }
+    return authFlowRef.current;
+  }
+
+  async function authorizeNow() {
+    try {
+      await obtainAuthorization(null, null);
+    } catch (err) {
+      pushEvent(`OAuth error: ${errorMessage(err)}`, 'error');
+    }
+  }
+
+  /**
+   * Sends a request with the stored bearer token. On a 401 it runs the
+   * authorization flow and retries once. A hand-written Authorization header
+   * turns all of this off.
+   */
+  async function fetchTarget(target: string, init: RequestInit & { headers: Record<string, string> }): Promise<Response> {
+    const hasAuthorization = Object.keys(init.headers).some(name => name.toLowerCase() === 'authorization');
+    if (!oauth || hasAuthorization) {
+      return fetchUpstream(target, init);
+    }
+
+    const requestHeaders: Record<string, string> = init.headers;
+    const withToken = (current: StoredAuthorization | null): typeof init =>
+      current ? { ...init, headers: { ...requestHeaders, Authorization: `Bearer ${current.accessToken}` } } : init;
+
+    const current = await usableAuthorization();
+    const response = await fetchUpstream(target, withToken(current));
+    if (response.status !== 401) return response;
+
+    response.body?.cancel().catch(() => undefined);
+    const challenge = parseWwwAuthenticate(response.headers.get('WWW-Authenticate'));
+    pushEvent(`Status: 401 Unauthorized${challenge ? ` (${challenge.scheme} challenge)` : ''}, starting authorization`, 'connection');
+    const next = await obtainAuthorization(challenge, current);
+    return fetchUpstream(target, withToken(next));
+  }
+
+  // Sends a request straight to the target, or through the /api/proxy route when enabled
+  async function fetchUpstream(target: string, init: RequestInit & { headers: Record<string, string> }): Promise<Response> {
+    if (!useProxy) {
+      return fetch(target, init);
+    }
+
+    const response = await fetch(proxyUrl(target), { ...init, headers: encodeProxyHeaders(init.headers) });
+    if (response.headers.has(PROXY_ERROR_HEADER)) {
+      throw new Error(`Proxy: ${await response.text()}`);
+    }
+
+    pushEvent(JSON.stringify({
+      upstream: `${init.method} ${target}`,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers)
+    }, null, 2), 'connection');
+    return response;
+  }
+
+  async function readEventStream(response: Response, cursor: StreamCursor, resumed: boolean) {
+    if (!response.body) {
+      throw new Error("No response body");
+    }
+
+    const reader = response.body.getReader();
+    readerRef.current = reader;
+    const decoder = new TextDecoder();
+    const parser = createSSEParser({
+      onEvent: message => {
+        cursor.lastEventId = message.lastEventId;
+        cursor.retry = message.retry;
+        cursor.received++;
+        receiveEvent(message, resumed);
+      }
+    });
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+
+    // An event without its terminating blank line is incomplete and gets dropped
+    parser.feed(decoder.decode());
+    parser.reset();
+  }
+
+  // Resumes a stream the way Streamable HTTP does: a GET carrying Last-Event-ID
+  async function reopenStream(lastEventId: string): Promise<Response> {
+    const requestHeaders = { ...buildRequestHeaders(), ...sessionHeaders(sessionRef.current) };
+    setHeader(requestHeaders, 'Accept', 'text/event-stream');
+    if (lastEventId) {
+      setHeader(requestHeaders, 'Last-Event-ID', lastEventId);
+    }
+
+    const response = await fetchTarget(resolvedUrl, {
+      method: "GET",
+      headers: requestHeaders,
+      signal: controllerRef.current?.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response;
+  }
+
+  /**
+   * Reads an SSE stream and, when reconnecting is enabled, reopens it after a drop
+   * using the server's retry hint or exponential backoff. `expectMore` lets a caller
+   * treat a clean close as a drop, e.g. while a request is still waiting for its answer.
+   */
+  async function readStreamWithReconnect(response: Response, expectMore?: () => boolean) {
+    const cursor: StreamCursor = { lastEventId: "", received: 0 };
+    let stream: Response | null = response;
+    let resumed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const received = cursor.received;
+      try {
+        if (!stream) {
+          stream = await reopenStream(cursor.lastEventId);
+          resumed = true;
+          pushEvent(`Status: ${stream.status} reconnected${cursor.lastEventId ? `, resuming after event ${cursor.lastEventId}` : ''}`, 'connection', { marker: 'reconnect' });
+        }
+        await readEventStream(stream, cursor, resumed);
+        if (expectMore?.()) {
+          throw new Error("Stream closed before the response arrived");
+        }
+        return;
+      } catch (err) {
+        // Any progress on the last connection restarts the attempt count
+        if (cursor.received > received) attempt = 0;
+        if (isAbortError(err) || !reconnect || attempt >= reconnectAttempts) throw err;
+        stream = null;
+        const delay = Math.min(cursor.retry ?? reconnectDelay * 2 ** attempt, MAX_RECONNECT_DELAY);
+        pushEvent(
+          `Stream dropped (${errorMessage(err)}). Reconnecting in ${delay}ms, attempt ${attempt + 1}/${reconnectAttempts}` +
+            (cursor.lastEventId ? ` with Last-Event-ID ${cursor.lastEventId}` : ''),
+          'info',
+          { marker: 'reconnect' }
+        );
+        await wait(delay, controllerRef.current?.signal);
+      }
+    }
+  }
+
+  // Streamable HTTP servers answer with a JSON body, an SSE stream, or 202 with no body
+  async function readResponse(response: Response, expectMore?: () => boolean) {
+    if (response.status === 202 || response.status === 204) {
+      pushEvent(`Accepted: ${response.status} ${response.statusText}`, 'info');
+      return;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('application/json')) {
+      const text = await response.text();
+      if (text.trim()) {
+        receiveData(text);
+      }
+      return;
+    }
+
+    await readStreamWithReconnect(response, expectMore);
+  }
+
+  // Legacy HTTP+SSE: the GET stream announces where to POST and carries every response
+  async function openLegacyStream(): Promise<{ endpoint: Promise<string>; closed: Promise<void> }> {
+    const requestHeaders = buildRequestHeaders();
+    setHeader(requestHeaders, 'Accept', 'text/event-stream');
+    endpointRef.current = null;
+
+    const response = await fetchTarget(resolvedUrl, {
+      method: "GET",
+      headers: requestHeaders,
+      signal: controllerRef.current?.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    pushEvent(`Connected to ${resolvedUrl}`, 'connection');
+    pushEvent(`Status: ${response.status} ${response.statusText}`, 'connection');
+
+    const closed = readStreamWithReconnect(response);
+    const endpoint = new Promise<string>((resolve, reject) => {
+      endpointWaiterRef.current = resolve;
+      closed.then(() => reject(new Error("Stream closed before the endpoint event")), reject);
+    });
+    return { endpoint, closed };
+  }
+
+  async function startStream() {
+    if (running) return;
+    if (mcpClient) return connectSession();
+    
+    stopReplay();
+    setRunning(true);
+    resetEvents();
+    resetLogs();
+    warnUndefinedVariables();
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const requestBody = resolveBody(body);
+    let legacyClosed: Promise<void> | null = null;
+
+    try {
+      if (transport === 'sse') {
+        const legacy = await openLegacyStream();
+        legacyClosed = legacy.closed;
+        await legacy.endpoint;
+        await postMessage(requestBody);
+        await legacy.closed;
+      } else {
+        if (method !== "GET") recordOutgoing(requestBody);
+        const response = await fetchTarget(resolvedUrl, {
+          method,
+          headers: buildRequestHeaders(),
+          body: method === "GET" ? undefined : requestBody,
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        pushEvent(`Connected to ${resolvedUrl}`, 'connection');
+        pushEvent(`Status: ${response.status} ${response.statusText}`, 'connection');
+
+        await readResponse(response);
+      }
+      
+      pushEvent("Stream closed by server.", 'info');
+    } catch (err) {
+      if (isAbortError(err)) {
+        pushEvent("Stream aborted by user.", 'info');
+      } else {
+        pushEvent(`Stream error: ${errorMessage(err)}`, 'error');
+      }
+      // A failed POST leaves the legacy GET stream open; stop it before letting go of the controller
+      if (legacyClosed) {
+        controller.abort();
+        await legacyClosed.catch(() => {});
+      }
+    } finally {
+      setRunning(false);
+      readerRef.current = null;
+      controllerRef.current = null;
+    }
+  }
+
+  function takeRequestId(): number {
+    return rpcIdRef.current++;
+  }
+
+  // POSTs one JSON-RPC message with the session headers and reads whatever comes back.
+  // With the legacy transport the message goes to the announced endpoint instead.
+  async function postMessage(
+    message: JsonRpcMessage | string,
+    options: { onResponse?: (response: Response) => void; awaitingId?: JsonRpcId } = {}
+  ): Promise<Response> {
+    const target = transport === 'sse' ? endpointRef.current : resolvedUrl;
+    if (!target) {
+      throw new Error("No POST endpoint announced by the server yet");
+    }
+
+    const requestHeaders = { ...buildRequestHeaders(), ...sessionHeaders(sessionRef.current) };
+    setHeader(requestHeaders, 'Content-Type', 'application/json');
+    setHeader(requestHeaders, 'Accept', 'application/json, text/event-stream');
+
+    const payload = typeof message === 'string' ? message : JSON.stringify(message);
+    recordOutgoing(payload);
+
+    const response = await fetchTarget(target, {
+      method: "POST",
+      headers: requestHeaders,
+      body: payload,
+      signal: controllerRef.current?.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    options.onResponse?.(response);
+
+    const { awaitingId } = options;
+    await readResponse(response, awaitingId === undefined ? undefined : () => pendingRef.current.has(callKey(awaitingId)));
+    return response;
+  }
+
+  // Opens the optional GET stream for server-initiated requests and notifications
+  async function openListenStream() {
+    const requestHeaders = { ...buildRequestHeaders(), ...sessionHeaders(sessionRef.current) };
+    setHeader(requestHeaders, 'Accept', 'text/event-stream');
+
+    try {
+      const response = await fetchTarget(resolvedUrl, {
+        method: "GET",
+        headers: requestHeaders,
+        signal: controllerRef.current?.signal
+      });
+
+      if (response.status === 405) {
+        pushEvent("Server does not offer a GET stream (405).", 'info');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      pushEvent(`Status: ${response.status} listening on GET stream`, 'connection');
+      await readStreamWithReconnect(response);
+      pushEvent("GET stream closed by server.", 'info');
+    } catch (err) {
+      if (!isAbortError(err)) {
+        pushEvent(`GET stream error: ${errorMessage(err)}`, 'error');
+      }
+    }
+  }
+
+  function sendRequest(message: { id: JsonRpcId; method: string }, onResponse?: (response: Response) => void): Promise<JsonRpcResponse> {
+    const request = message as JsonRpcRequest;
+    const outgoing = progressTokens && request.method !== 'initialize' ? withProgressToken(request, request.id) : request;
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(callKey(message.id), { resolve, reject });
+      postMessage(outgoing, {
+        onResponse,
+        awaitingId: transport === 'sse' ? undefined : message.id
+      })
+        .then(() => {
+          // Legacy servers answer on the GET stream, so only Streamable HTTP can tell
+          // that a finished POST carried no response
+          if (transport === 'sse') return;
+          const pending = pendingRef.current.get(callKey(message.id));
+          if (pending) {
+            pendingRef.current.delete(callKey(message.id));
+            pending.reject(new Error(`No response received for ${message.method} (id ${message.id})`));
+          }
+        })
+        .catch(err => {
+          pendingRef.current.delete(callKey(message.id));
+          reject(err);
+        });
+    });
+  }
+
+  function rejectPending(reason: string) {
+    pendingRef.current.forEach(pending => pending.reject(new Error(reason)));
+    pendingRef.current.clear();
+    callsRef.current.forEach(call => clearTimeout(call.timer));
+    callsRef.current.clear();
+  }
+
+  async function connectSession() {
+    stopReplay();
+    setRunning(true);
+    resetEvents();
+    resetLogs();
+    warnUndefinedVariables(false);
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      let legacyClosed: Promise<void> | null = null;
+      if (transport === 'sse') {
+        const legacy = await openLegacyStream();
+        await legacy.endpoint;
+        legacyClosed = legacy.closed;
+      }
+
+      const request = buildInitializeRequest(takeRequestId(), buildClientCapabilities(clientFeatures));
+      pushEvent(`Initializing MCP session with ${resolvedUrl}`, 'connection');
+
+      let sessionId: string | null = null;
+      const response = await sendRequest(request, res => {
+        sessionId = res.headers.get(SESSION_ID_HEADER);
+      });
+      if (response.error) {
+        throw new Error(`initialize failed: ${response.error.message} (${response.error.code})`);
+      }
+
+      const newSession = createSession(response.result, sessionId);
+      sessionRef.current = newSession;
+      setSession(newSession);
+      pushEvent(`Connected to ${newSession.serverInfo.name} ${newSession.serverInfo.version} (protocol ${newSession.protocolVersion})`, 'connection');
+      if (sessionId) {
+        pushEvent(`Status: session ${sessionId}`, 'connection');
+      }
+
+      await postMessage(buildInitializedNotification());
+      if (legacyClosed) {
+        legacyClosed.then(() => {
+          if (controllerRef.current === controller) {
+            pushEvent("Stream closed by server.", 'info');
+            endSession();
+          }
+        }, () => {});
+      } else {
+        openListenStream();
+      }
+    } catch (err) {
+      if (isAbortError(err)) {
+        pushEvent("Handshake aborted by user.", 'info');
+      } else {
+        pushEvent(`Handshake error: ${errorMessage(err)}`, 'error');
+      }
+      await endSession();
+    }
+  }
+
+  // Sends the editor body inside the current session
+  async function sendBody() {
+    const requestBody = resolveBody(body);
+    const validation = validateJson(requestBody);
+    if (!validation.isValid) {
+      setJsonError(validation.error || 'Invalid JSON');
+      return;
+    }
+    warnUndefinedVariables();
+
+    try {
+      const message = JSON.parse(requestBody);
+      if (isJsonRpcRequest(message)) {
+        const sent = sendRequest(message);
+        bumpBodyId(message);
+        await sent;
+      } else {
+        await postMessage(message);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        pushEvent(`Request error: ${errorMessage(err)}`, 'error');
+      }
+    }
+  }
+
+  // Gives the request in the editor a fresh id so sending it again is not a duplicate.
+  // The unresolved body is rewritten so its {{var}} placeholders survive.
+  function bumpBodyId(message: { id: JsonRpcId }) {
+    if (typeof message.id !== 'number') return;
+    try {
+      const editorMessage = JSON.parse(body);
+      const indent = body.includes('\n') ? 2 : undefined;
+      setBody(JSON.stringify({ ...editorMessage, id: takeRequestId() }, null, indent));
+    } catch {
+      // A placeholder outside a string keeps the editor body from parsing; leave it alone
+    }
+  }
+
+  /**
+   * Sends a request from one of the explorer panels. Inside a session it goes out
+   * right away; otherwise it is loaded into the body editor for the next Connect.
+   */
+  async function runRequest(requestMethod: string, params: Record<string, unknown>): Promise<JsonRpcResponse | null> {
+    const message = { jsonrpc: "2.0" as const, id: takeRequestId(), method: requestMethod, params };
+    if (!sessionRef.current) {
+      setBody(JSON.stringify(message, null, 2));
+      setJsonError(null);
+      return null;
+    }
+
+    try {
+      return await sendRequest(message);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        pushEvent(`Request error: ${errorMessage(err)}`, 'error');
+      }
+      return null;
+    }
+  }
+
+  // The suite opens a session of its own, so it can end it without touching ours
+  async function runConformanceSuite(onCheck: (result: CheckResult) => void, signal: AbortSignal): Promise<ConformanceReport> {
+    warnUndefinedVariables(false);
+    pushEvent(`Conformance: running suite against ${resolvedUrl}`, 'info');
+    try {
+      const report = await runConformance({
+        url: resolvedUrl,
+        headers: buildRequestHeaders(),
+        fetcher: fetchTarget,
+        signal,
+        timeoutMs: requestTimeout,
+        onCheck,
+        onExchange: evidence => {
+          pushEvent(evidence.request, 'request');
+          return pushEvent(evidence.response || `HTTP ${evidence.status} with an empty body`, 'data');
+        }
+      });
+      const count = (status: CheckResult['status']) => report.checks.filter(check => check.status === status).length;
+      pushEvent(`Conformance: ${count('pass')} passed, ${count('fail')} failed, ${count('skip')} skipped`, count('fail') > 0 ? 'error' : 'info');
+      return report;
+    } catch (err) {
+      pushEvent(isAbortError(err) ? 'Conformance: cancelled' : `Conformance error: ${errorMessage(err)}`, isAbortError(err) ? 'info' : 'error');
+      throw err;
+    }
+  }
+
+  async function setServerLogLevel(level: LogLevel) {
+    const response = await runRequest('logging/setLevel', { level });
+    if (response && !response.error) setLogLevel(level);
+  }
+
+  async function listTools() {
+    const listed = await listAll<Tool>('tools/list', 'tools');
+    if (listed) setTools(listed);
+  }
+
+  // Collects every page of a paginated list method
+  async function listAll<T>(listMethod: string, key: string): Promise<T[] | null> {
+    const collected: T[] = [];
+    let cursor: unknown;
+    do {
+      const response = await runRequest(listMethod, cursor ? { cursor } : {});
+      if (!response?.result || !Array.isArray(response.result[key])) return null;
+      collected.push(...(response.result[key] as T[]));
+      cursor = response.result.nextCursor;
+    } while (cursor);
+    return collected;
+  }
+
+  async function listResources() {
+    const listed = await listAll<Resource>('resources/list', 'resources');
+    if (!listed) return;
+    setResources(listed);
+    setResourcesListChanged(false);
+    const listedTemplates = await listAll<ResourceTemplate>('resources/templates/list', 'resourceTemplates');
+    if (listedTemplates) setResourceTemplates(listedTemplates);
+  }
+
+  async function listPrompts() {
+    const listed = await listAll<Prompt>('prompts/list', 'prompts');
+    if (listed) setPrompts(listed);
+  }
+
+  // Tears down the session and tells the server with an HTTP DELETE
+  async function endSession() {
+    const current = sessionRef.current;
+    try {
+      if (controllerRef.current) controllerRef.current.abort();
+    } catch {
+      // ignore
+    }
+    rejectPending("Session closed");
+    setServerRequests([]);
+    setLogLevel(null);
+    sessionRef.current = null;
+    controllerRef.current = null;
+    setSession(null);
+    setRunning(false);
+
+    if (!current?.sessionId) return;
+    try {
+      const response = await fetchTarget(resolvedUrl, {
+        method: "DELETE",
+        headers: { ...buildRequestHeaders(), ...sessionHeaders(current) }
+      });
+      if (response.status === 405) {
+        pushEvent("Server does not allow clients to terminate sessions (405).", 'info');
+      } else {
+        pushEvent(`Session ${current.sessionId} terminated (Status: ${response.status})`, 'info');
+      }
+    } catch (err) {
+      pushEvent(`Session termination error: ${errorMessage(err)}`, 'error');
+    }
+  }
+
+  function stopStream() {
+    if (sessionRef.current) {
+      endSession();
+      return;
+    }
+    try {
+      if (controllerRef.current) controllerRef.current.abort();
+      if (readerRef.current) readerRef.current.cancel();
+    } catch {
+      // ignore
+    }
+    setRunning(false);
+  }
+
+  function copyToClipboard(text: string) {
+    navigator.clipboard?.writeText(text).catch(() => {});
+  }
+
+  function clearEvents() {
+    stopReplay();
+    resetEvents();
+  }
+
+  // JSON-RPC templates
+  const jsonRpcTemplates = {
+    'tools/list': {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/list",
+      params: {}
+    },
+    'tools/call': {
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: {
+        name: "example_tool",
+        arguments: {}
+      }
+    },
+    'resources/list': {
+      jsonrpc: "2.0",
+      id: 3,
+      method: "resources/list",
+      params: {}
+    },
+    'resources/read': {
+      jsonrpc: "2.0",
+      id: 4,
+      method: "resources/read",
+      params: {
+        uri: "file://example.txt"
+      }
+    },
+    'prompts/list': {
+      jsonrpc: "2.0",
+      id: 5,
+      method: "prompts/list",
+      params: {}
+    },
+    'prompts/get': {
+      jsonrpc: "2.0",
+      id: 6,
+      method: "prompts/get",
+      params: {
+        name: "example_prompt",
+        arguments: {}
+      }
+    },
+    'custom': {
+      jsonrpc: "2.0",
+      id: 7,
+      method: "your_method",
+      params: {}
+    }
+  };
+
+  function formatJsonBody() {
+    const validation = validateJson(body);
+    if (validation.isValid && validation.formatted) {
+      setBody(validation.formatted);
+      setJsonError(null);
+    } else {
+      setJsonError(validation.error || 'Invalid JSON');
+    }
+  }
+
+  function loadJsonRpcTemplate(templateKey: string) {
+    const template = jsonRpcTemplates[templateKey as keyof typeof jsonRpcTemplates];
+    if (template) {
+      // Use the next available ID
+      const templateWithId = { ...template, id: takeRequestId() };
+      setBody(JSON.stringify(templateWithId, null, 2));
+      setJsonError(null);
+    }
+  }
+
+  function handleBodyChange(value: string) {
+    setBody(value);
+    // Clear error when user starts typing
+    if (jsonError) {
+      setJsonError(null);
+    }
+  }
+
+  function exportEvents() {
+    const request = {
+      url,
+      method,
+      transport,
+      headers: headers.filter(h => h.key.trim() && h.value.trim()).map(({ key, value }) => ({ key, value })),
+      body: method !== "GET" ? body : null
+    };
+    const exported = filteredEvents.visible.map(({ event, extracted }) => ({ ...event, extracted }));
+    downloadFile(
+      exportSession(request, exported, isFilterActive(eventFilter) ? eventFilter : undefined),
+      `mcp-stream-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`
+    );
+  }
+
+  // Restores the request and events of one exported file, or of a folder of them merged in time order
+  async function importSessionFiles(files: File[]) {
+    // Live traffic would mix into the imported events and break id correlation
+    if (running) return;
+    const sessionFiles = files.filter(file => file.name.endsWith('.json'));
+    if (sessionFiles.length === 0) {
+      setImportError('No .json files selected');
+      return;
+    }
+    const sessions: ImportedSession[] = [];
+    const failures: string[] = [];
+    for (const file of sessionFiles) {
+      try {
+        sessions.push(importSession(await file.text(), file.webkitRelativePath || file.name));
+      } catch (err) {
+        failures.push(errorMessage(err));
+      }
+    }
+    if (controllerRef.current) {
+      setImportError('A connection started while the files were read; disconnect and import again');
+      return;
+    }
+    setImportError(failures.length > 0 ? failures.join('\n') : null);
+    if (sessions.length === 0) return;
+
+    const imported = sessions.length === 1 ? sessions[0] : mergeSessions(sessions);
+    const { request } = imported;
+    stopReplay();
+    setImportedSession(imported);
+    setUrl(request.url);
+    setMethod(request.method);
+    if (request.transport === 'streamable-http' || request.transport === 'sse') setTransport(request.transport);
+    setHeaders(request.headers.map((header, index) => ({ id: `${Date.now()}-${index}`, ...header })));
+    if (request.body !== null) setBody(request.body);
+    setJsonError(null);
+    resetEvents();
+    resetLogs();
+    imported.events.forEach(appendEvent);
+  }
+
+  async function replaySession(speed: number, maxGapMs: number) {
+    if (!importedSession || running) return;
+    replayControllerRef.current?.abort();
+    const controller = new AbortController();
+    replayControllerRef.current = controller;
+
+    const recorded = importedSession.events;
+    const delays = replayDelays(recorded, speed, maxGapMs);
+    resetEvents();
+    setReplay({ played: 0, total: recorded.length });
+    try {
+      for (let i = 0; i < recorded.length; i++) {
+        if (delays[i] > 0) await wait(delays[i], controller.signal);
+        appendEvent(recorded[i]);
+        setReplay({ played: i + 1, total: recorded.length });
+      }
+    } catch (err) {
+      if (!isAbortError(err)) throw err;
+    } finally {
+      if (replayControllerRef.current === controller) {
+        replayControllerRef.current = null;
+        setReplay(null);
+      }
+    }
+  }
+
+  function stopReplay() {
+    replayControllerRef.current?.abort();
+  }
+
+  function closeImportedSession() {
+    stopReplay();
+    setImportedSession(null);
+    setImportError(null);
+  }
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="bg-white border-b border-gray-200">
+        <div className={`${compact ? '' : 'max-w-7xl mx-auto'} px-6 py-3`}>
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0 text-sm text-gray-500 font-mono truncate" title={resolvedUrl}>
+              {resolvedUrl}
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={environmentId ?? ''}
+                onChange={e => setEnvironmentId(e.target.value || null)}
+                className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm"
+                title="Active environment"
+              >
+                <option value="">No environment</option>
+                {environments.map(environment => (
+                  <option key={environment.id} value={environment.id}>{environment.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowEnvironments(prev => !prev)}
+                className={`px-3 py-1 border rounded-lg transition-colors text-sm font-medium ${
+                  showEnvironments
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'border-gray-300 hover:bg-gray-50 text-gray-700 hover:text-gray-900'
+                }`}
+                title="Edit environments"
+              >
+                {'{{ }}'}
+              </button>
+              <button
+                onClick={() => setShowCollections(prev => !prev)}
+                className={`px-3 py-1 border rounded-lg transition-colors text-sm font-medium ${
+                  showCollections
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'border-gray-300 hover:bg-gray-50 text-gray-700 hover:text-gray-900'
+                }`}
+              >
+                📚 Collections
+              </button>
+              {session && (
+                <div className="text-right text-xs text-gray-600">
+                  <div className="font-medium text-gray-900">
+                    {session.serverInfo.title || session.serverInfo.name} {session.serverInfo.version}
+                    <span className="ml-2 font-normal text-gray-500">protocol {session.protocolVersion}</span>
+                  </div>
+                  <div className="mt-1">
+                    {describeCapabilities(session.capabilities).join(' • ') || 'no capabilities'}
+                  </div>
+                </div>
+              )}
+              <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                running 
+                  ? 'bg-green-100 text-green-800 border border-green-200' 
+                  : 'bg-gray-100 text-gray-600 border border-gray-200'
+              }`}>
+                {running ? '● Connected' : '○ Disconnected'}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Collections Sidebar */}
+      {showCollections && (
+        <div className="fixed inset-y-0 left-0 z-40 w-80 overflow-y-auto bg-[#faf9f7] border-r border-gray-200 shadow-lg p-4 space-y-3">
+          <button onClick={() => setShowCollections(false)} className="text-sm text-gray-500 hover:text-gray-900">
+            ← Hide
+          </button>
+          <CollectionsSidebar
+            collections={collections}
+            onChange={updateCollections}
+            draft={{
+              url,
+              method,
+              transport,
+              headers: headers.filter(h => h.key.trim()).map(({ key, value }) => ({ key, value })),
+              body
+            }}
+            onLoad={loadSavedRequest}
+          />
+        </div>
+      )}
+
+      {/* Environments Drawer */}
+      {showEnvironments && (
+        <div className="fixed inset-y-0 right-0 z-40 w-96 overflow-y-auto bg-[#faf9f7] border-l border-gray-200 shadow-lg p-4 space-y-3">
+          <button onClick={() => setShowEnvironments(false)} className="text-sm text-gray-500 hover:text-gray-900">
+            Hide →
+          </button>
+          <EnvironmentEditor environments={environments} onChange={updateEnvironments} />
+        </div>
+      )}
+
+      {/* Main Content */}
+      <div className={compact ? 'p-4' : 'max-w-7xl mx-auto p-6'}>
+        <div className={`grid grid-cols-1 gap-6 ${compact ? '' : 'lg:grid-cols-2'}`}>
+          {/* Left Panel - Request Configuration */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Request Configuration</h2>
+              <button
+                onClick={() => setShowCode(prev => !prev)}
+                className={`px-3 py-1 border rounded-lg transition-colors text-sm font-medium ${
+                  showCode
+                    ? 'bg-gray-900 border-gray-900 text-white'
+                    : 'border-gray-300 hover:bg-gray-50 text-gray-700 hover:text-gray-900'
+                }`}
+                title="Export the request as code or import a curl command"
+              >
+                {'</>'} Code
+              </button>
+            </div>
+            
+            <div className="p-6 space-y-6">
+              {showCode && (
+                <RequestCodePanel
+                  request={{
+                    url: resolvedUrl,
+                    method: transport === 'sse' ? 'GET' : method,
+                    transport,
+                    headers: Object.entries(buildRequestHeaders()).map(([key, value]) => ({ key, value })),
+                    body: transport !== 'sse' && method !== 'GET' ? resolveBody(body) : null
+                  }}
+                  onImport={importCurlRequest}
+                />
+              )}
+
+              {/* URL and Method */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Endpoint</label>
+                <div className="flex gap-3">
+                  <input 
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500" 
+                    value={url} 
+                    onChange={e => setUrl(e.target.value)} 
+                    placeholder="https://your-mcp-endpoint.com/stream" 
+                  />
+                  <select 
+                    value={method} 
+                    onChange={e => setMethod(e.target.value)} 
+                    disabled={transport === 'sse' || mcpClient}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 disabled:text-gray-400"
+                  >
+                    <option>POST</option>
+                    <option>GET</option>
+                  </select>
+                  <select 
+                    value={transport} 
+                    onChange={e => setTransport(e.target.value as Transport)} 
+                    disabled={running}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900"
+                    title="Transport"
+                  >
+                    <option value="streamable-http">Streamable HTTP</option>
+                    <option value="sse">HTTP+SSE (legacy)</option>
+                  </select>
+                  <button 
+                    className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+                      running 
+                        ? 'bg-red-600 hover:bg-red-700 text-white' 
+                        : 'bg-gray-900 hover:bg-gray-800 text-white'
+                    }`} 
+                    onClick={() => (running ? stopStream() : startStream())}
+                  >
+                    {running ? (mcpClient ? 'Disconnect' : 'Stop') : 'Connect'}
+                  </button>
+                  {session && (
+                    <button 
+                      className="px-6 py-2 rounded-lg font-medium transition-colors bg-gray-900 hover:bg-gray-800 text-white"
+                      onClick={sendBody}
+                      title="Send the request body in the current session"
+                    >
+                      Send
+                    </button>
+                  )}
+                </div>
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox" 
+                    checked={mcpClient} 
+                    disabled={running}
+                    onChange={e => setMcpClient(e.target.checked)}
+                    className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                  />
+                  <span className="text-sm text-gray-700">Connect as MCP client (initialize handshake and session)</span>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox" 
+                    checked={useProxy} 
+                    disabled={running}
+                    onChange={e => setUseProxy(e.target.checked)}
+                    className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                  />
+                  <span className="text-sm text-gray-700">Send via proxy (avoids CORS, allows any header)</span>
+                </label>
+              </div>
+
+              {/* Headers */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Headers</label>
+                <div className="space-y-2">
+                  {headers.map(h => (
+                    <div key={h.id} className="flex gap-2">
+                      <input 
+                        value={h.key} 
+                        onChange={e => updateHeader(h.id, 'key', e.target.value)} 
+                        placeholder="Header name" 
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm" 
+                      />
+                      <input 
+                        value={h.value} 
+                        onChange={e => updateHeader(h.id, 'value', e.target.value)} 
+                        placeholder="Header value" 
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm" 
+                      />
+                      <button 
+                        onClick={() => removeHeader(h.id)} 
+                        className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-600 hover:text-gray-800 transition-colors"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button 
+                    onClick={addHeader} 
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    + Add Header
+                  </button>
+                </div>
+              </div>
+
+              {/* Authorization */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Authorization</label>
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox" 
+                    checked={oauth} 
+                    onChange={e => setOauth(e.target.checked)}
+                    className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                  />
+                  <span className="text-sm text-gray-700">Answer 401 responses with OAuth authorization (PKCE, token refresh)</span>
+                </label>
+                <input 
+                  value={oauthClientId} 
+                  onChange={e => setOauthClientId(e.target.value)} 
+                  disabled={!oauth}
+                  placeholder="Client ID (leave empty to register dynamically)" 
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm disabled:text-gray-400" 
+                />
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-600 space-y-1">
+                  {authorization ? (
+                    <>
+                      <div>
+                        Token <span className="font-mono text-gray-900">{authorization.accessToken.slice(0, 8)}…</span> from{' '}
+                        <span className="font-mono">{authorization.issuer}</span>
+                      </div>
+                      <div>
+                        {authorization.expiresAt
+                          ? `${isExpired(authorization) ? 'Expired' : 'Expires'} ${new Date(authorization.expiresAt).toLocaleString()}`
+                          : 'No expiry given'}
+                        {authorization.refreshToken ? ' • refreshable' : ''}
+                        {authorization.scope ? ` • scope: ${authorization.scope}` : ''}
+                      </div>
+                    </>
+                  ) : (
+                    <div>No token stored for this server.</div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button 
+                    onClick={authorizeNow} 
+                    disabled={!oauth}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50"
+                  >
+                    🔑 Authorize
+                  </button>
+                  {authorization?.refreshToken && (
+                    <button 
+                      onClick={() => refreshStoredAuthorization(authorization).catch(err => pushEvent(`OAuth error: ${errorMessage(err)}`, 'error'))} 
+                      className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                    >
+                      ↻ Refresh
+                    </button>
+                  )}
+                  {authorization && (
+                    <button 
+                      onClick={clearAuthorization} 
+                      className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                    >
+                      Forget token
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* JSON-RPC Templates */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">JSON-RPC Templates</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.keys(jsonRpcTemplates).map(templateKey => (
+                    <button
+                      key={templateKey}
+                      onClick={() => loadJsonRpcTemplate(templateKey)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-xs font-medium text-left"
+                      title={`Load ${templateKey} template`}
+                    >
+                      {templateKey === 'custom' ? '🔧 Custom' : `📋 ${templateKey}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Request Body */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">Request Body</label>
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={formatJsonBody}
+                      className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-600 hover:text-gray-800 hover:bg-gray-50 transition-colors"
+                      title="Format and validate JSON"
+                    >
+                      ✨ Format
+                    </button>
+                  </div>
+                </div>
+                <JsonTextarea
+                  value={body}
+                  error={jsonError}
+                  onChange={handleBodyChange}
+                  placeholder="Enter your JSON-RPC request body here..."
+                  rows={12}
+                />
+                <div className="flex gap-2 flex-wrap">
+                  <button 
+                    onClick={() => copyToClipboard(body)} 
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    📋 Copy Body
+                  </button>
+                  <button 
+                    onClick={() => { setBody(''); setJsonError(null); }} 
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    🗑️ Clear Body
+                  </button>
+                  <button 
+                    onClick={() => {
+                      const validation = validateJson(body);
+                      if (validation.isValid) {
+                        alert('✅ JSON is valid!');
+                        setJsonError(null);
+                      } else {
+                        setJsonError(validation.error || 'Invalid JSON');
+                      }
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    ✓ Validate
+                  </button>
+                  <button 
+                    onClick={() => {
+                      try {
+                        const parsed = JSON.parse(body);
+                        const minified = JSON.stringify(parsed);
+                        setBody(minified);
+                        setJsonError(null);
+                      } catch (error) {
+                        setJsonError(error instanceof Error ? error.message : 'Invalid JSON');
+                      }
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    📦 Minify
+                  </button>
+                </div>
+                {jsonError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-red-500">⚠️</span>
+                      <span className="text-sm text-red-700 font-medium">JSON Error:</span>
+                    </div>
+                    <p className="text-sm text-red-600 mt-1 font-mono">{jsonError}</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Resolved Request Preview */}
+              {(hasPlaceholders(url) || hasPlaceholders(body) || headers.some(h => hasPlaceholders(h.value))) && (
+                <details className="border border-gray-200 rounded-lg">
+                  <summary className="px-3 py-2 text-sm font-medium text-gray-700 cursor-pointer">
+                    Resolved request
+                    {missingVariables.length > 0 && (
+                      <span className="ml-2 text-xs text-yellow-700">⚠ {missingVariables.length} undefined</span>
+                    )}
+                  </summary>
+                  <div className="px-3 pb-3 space-y-2">
+                    {missingVariables.length > 0 && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-xs text-yellow-800">
+                        {activeEnvironmentName ? `Not defined in ${activeEnvironmentName}: ` : 'No environment is active, so these are undefined: '}
+                        <span className="font-mono">{missingVariables.map(name => `{{${name}}}`).join(', ')}</span>. They are sent as-is.
+                      </div>
+                    )}
+                    <pre className="text-xs text-gray-800 whitespace-pre-wrap font-mono break-all bg-gray-50 rounded p-2">
+                      {[
+                        `${mcpClient || transport === 'sse' ? 'POST' : method} ${resolvedUrl}`,
+                        ...Object.entries(buildRequestHeaders()).map(([key, value]) => `${key}: ${value}`),
+                        '',
+                        resolveBody(body)
+                      ].join('\n')}
+                    </pre>
+                  </div>
+                </details>
+              )}
+
+              {/* Display Settings */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Display Settings</label>
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2">
+                    <input 
+                      type="checkbox" 
+                      checked={formatJson} 
+                      onChange={e => setFormatJson(e.target.checked)}
+                      className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                    />
+                    <span className="text-sm text-gray-700">Format JSON responses</span>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input 
+                      type="checkbox" 
+                      checked={showTimestamps} 
+                      onChange={e => setShowTimestamps(e.target.checked)}
+                      className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                    />
+                    <span className="text-sm text-gray-700">Show timestamps</span>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input 
+                      type="checkbox" 
+                      checked={autoScroll} 
+                      onChange={e => setAutoScroll(e.target.checked)}
+                      className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                    />
+                    <span className="text-sm text-gray-700">Auto-scroll to new events</span>
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Keep the last
+                    <input 
+                      type="number" 
+                      min={0}
+                      step={1000}
+                      value={maxEvents} 
+                      onChange={e => setMaxEvents(Math.max(0, Number(e.target.value)))}
+                      className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm"
+                    />
+                    events (0 keeps all)
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input 
+                      type="checkbox" 
+                      checked={validateMcp} 
+                      onChange={e => setValidateMcp(e.target.checked)}
+                      className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                    />
+                    <span className="text-sm text-gray-700">Check server messages against the MCP schema</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Reconnect Settings */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Reconnection</label>
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2">
+                    <input 
+                      type="checkbox" 
+                      checked={reconnect} 
+                      onChange={e => setReconnect(e.target.checked)}
+                      className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                    />
+                    <span className="text-sm text-gray-700">Reconnect dropped streams and resume with Last-Event-ID</span>
+                  </label>
+                  <div className="flex gap-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Backoff
+                      <input 
+                        type="number" 
+                        min={0}
+                        step={100}
+                        value={reconnectDelay} 
+                        disabled={!reconnect}
+                        onChange={e => setReconnectDelay(Math.max(0, Number(e.target.value)))}
+                        className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm disabled:text-gray-400"
+                      />
+                      ms
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Max attempts
+                      <input 
+                        type="number" 
+                        min={1}
+                        value={reconnectAttempts} 
+                        disabled={!reconnect}
+                        onChange={e => setReconnectAttempts(Math.max(1, Number(e.target.value)))}
+                        className="w-20 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm disabled:text-gray-400"
+                      />
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500">A server <code>retry:</code> hint overrides the backoff. Delays double per attempt up to 30s.</p>
+                </div>
+              </div>
+
+              {/* Request Settings */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Requests</label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Time out after
+                  <input 
+                    type="number" 
+                    min={100}
+                    step={1000}
+                    value={requestTimeout} 
+                    onChange={e => setRequestTimeout(Math.max(100, Number(e.target.value)))}
+                    className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 text-sm"
+                  />
+                  ms without a response
+                </label>
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox" 
+                    checked={progressTokens} 
+                    onChange={e => setProgressTokens(e.target.checked)}
+                    className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                  />
+                  <span className="text-sm text-gray-700">Ask for progress notifications (<code>_meta.progressToken</code>)</span>
+                </label>
+              </div>
+
+              {/* Client Capabilities */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">Client capabilities</label>
+                <p className="text-xs text-gray-500">Declared in initialize on the next Connect. Server requests for these are answered from cards above the stream.</p>
+                <div className="flex gap-4">
+                  {CLIENT_FEATURES.map(({ feature, method: featureMethod, label }) => (
+                    <label key={feature} className="flex items-center gap-2" title={featureMethod}>
+                      <input 
+                        type="checkbox" 
+                        checked={clientFeatures.includes(feature)} 
+                        onChange={e => setClientFeatures(prev => e.target.checked ? [...prev, feature] : prev.filter(existing => existing !== feature))}
+                        className="rounded border-gray-300 text-gray-600 focus:ring-gray-500"
+                      />
+                      <span className="text-sm text-gray-700">{label}</span>
+                    </label>
+                  ))}
+                </div>
+                {clientFeatures.includes('roots') && (
+                  <div className="space-y-2">
+                    {roots.map(root => (
+                      <div key={root.uri} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 font-mono text-gray-900 truncate" title={root.uri}>{root.uri}</span>
+                        {root.name && <span className="text-gray-500">{root.name}</span>}
+                        <button 
+                          onClick={() => updateRoots(roots.filter(existing => existing.uri !== root.uri))} 
+                          className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-600 hover:text-gray-800 transition-colors"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-2">
+                      <input 
+                        value={newRoot.uri} 
+                        onChange={e => setNewRoot(prev => ({ ...prev, uri: e.target.value }))} 
+                        placeholder="file:///path/to/project" 
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm font-mono" 
+                      />
+                      <input 
+                        value={newRoot.name} 
+                        onChange={e => setNewRoot(prev => ({ ...prev, name: e.target.value }))} 
+                        placeholder="Name (optional)" 
+                        className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 text-sm" 
+                      />
+                      <button 
+                        onClick={addRoot} 
+                        disabled={!newRoot.uri.trim() || rootUriError(newRoot.uri.trim()) !== null}
+                        className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50"
+                      >
+                        + Root
+                      </button>
+                    </div>
+                    {newRoot.uri.trim() && rootUriError(newRoot.uri.trim()) && (
+                      <p className="text-xs text-red-600">{rootUriError(newRoot.uri.trim())}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Right Panel - Response Stream */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Response Stream</h2>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {events.length} events • {events.filter(e => e.type === 'data').length} data • {events.filter(e => e.type === 'error').length + logCounts.errors} errors
+                    {logCounts.warnings > 0 && ` • ${logCounts.warnings} warnings`}
+                    {events.some(e => e.violations) && ` • ${events.filter(e => e.violations).length} with schema violations`}
+                    {droppedEvents > 0 && ` • ${droppedEvents} oldest dropped`}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-wrap justify-end">
+                  <button 
+                    onClick={exportEvents} 
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                    title="Export events as JSON"
+                  >
+                    Export
+                  </button>
+                  <button 
+                    onClick={() => importInputRef.current?.click()} 
+                    disabled={running}
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50"
+                    title="Load exported session files"
+                  >
+                    Import
+                  </button>
+                  <button 
+                    onClick={() => importFolderInputRef.current?.click()} 
+                    disabled={running}
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium disabled:opacity-50"
+                    title="Load every exported session in a folder"
+                  >
+                    Import Folder
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    multiple
+                    className="hidden"
+                    onChange={e => {
+                      importSessionFiles(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                  />
+                  <input
+                    ref={importFolderInputRef}
+                    type="file"
+                    {...{ webkitdirectory: '' }}
+                    className="hidden"
+                    onChange={e => {
+                      importSessionFiles(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                  />
+                  <button 
+                    onClick={clearEvents} 
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    Clear
+                  </button>
+                  <button 
+                    onClick={() => copyToClipboard(filteredEvents.visible.map(({ event, extracted }) => extracted ? formatExtracted(extracted) : event.raw).join('\n\n'))} 
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-gray-700 hover:text-gray-900 transition-colors text-sm font-medium"
+                  >
+                    Copy All
+                  </button>
+                </div>
+              </div>
+              {importError && <p className="text-xs text-red-600 mt-2 whitespace-pre-line">{importError}</p>}
+            </div>
+
+            {serverRequests.length > 0 && (
+              <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+                <div className="text-sm font-medium text-gray-700">
+                  {serverRequests.length} server {serverRequests.length === 1 ? 'request' : 'requests'} waiting for an answer
+                </div>
+                {serverRequests.map(request => (
+                  <ServerRequestCard
+                    key={String(request.id)}
+                    request={request}
+                    roots={roots}
+                    onRespond={reply => answerServerRequest(request, reply)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {importedSession && (
+              <ReplayBar
+                session={importedSession}
+                progress={replay}
+                disabled={running}
+                onReplay={replaySession}
+                onStop={stopReplay}
+                onClose={closeImportedSession}
+              />
+            )}
+
+            <EventFilterBar
+              filter={eventFilter}
+              onChange={setEventFilter}
+              types={EVENT_TYPES}
+              shown={filteredEvents.visible.length}
+              total={events.length}
+              searchError={filteredEvents.searchError}
+              jsonPathError={filteredEvents.jsonPathError}
+            />
+
+            <div style={{ position: 'relative' }}>
+              <VirtualList
+                ref={eventListRef}
+                items={filteredEvents.visible}
+                getKey={({ event }) => event.id}
+                height={600}
+                followEnd={autoScroll && following}
+                onScroll={followEvents}
+                style={{
+                  backgroundColor: '#1a1a1a',
+                  color: '#a0aec0',
+                  padding: '1rem',
+                  fontSize: '0.875rem',
+                  fontFamily: 'var(--font-geist-mono), Courier New, monospace'
+                }}
+                placeholder={events.length === 0 ? (
+                  <div style={{
+                    opacity: 0.6,
+                    textAlign: 'center',
+                    padding: '3rem 0',
+                    color: '#6b7280'
+                  }}>
+                    <div style={{ color: '#6b7280', marginBottom: '0.5rem' }}>No events yet</div>
+                    <div style={{ fontSize: '0.75rem', color: '#4b5563' }}>
+                      Click &quot;Connect&quot; to start streaming. SSE data events will appear here in real-time.
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: '#4b5563', marginTop: '1rem' }}>
+                      💡 Enable &quot;Format JSON responses&quot; in settings for better readability
+                    </div>
+                  </div>
+                ) : (
+                  <div style={{ opacity: 0.6, textAlign: 'center', padding: '3rem 0', color: '#6b7280' }}>
+                    No events match the filters
+                  </div>
+                )}
+                renderItem={({ event: ev, extracted }) => (
+                  <EventItem
+                    event={ev}
+                    extracted={extracted}
+                    showTimestamps={showTimestamps}
+                    formatJson={formatJson}
+                    highlighted={highlightedEventId === ev.id}
+                    canCancel={session !== null}
+                    actions={eventActions}
+                  />
+                )}
+              />
+              {newEventCount > 0 && (
+                <button
+                  onClick={showNewEvents}
+                  style={{
+                    position: 'absolute',
+                    bottom: '1rem',
+                    left: '50%',
+                    transform: 'translateX(-50%)',
+                    backgroundColor: '#a855f7',
+                    color: '#ffffff',
+                    border: 'none',
+                    borderRadius: '9999px',
+                    padding: '0.375rem 1rem',
+                    fontSize: '0.75rem',
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.4)'
+                  }}
+                >
+                  ↓ {newEventCount} new {newEventCount === 1 ? 'event' : 'events'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Server Explorer */}
+        <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Server Explorer</h2>
+                <p className="text-xs text-gray-600 mt-1">
+                  {session ? 'Requests are sent in the current session' : 'Not connected: requests are loaded into the request body'}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-wrap justify-end">
+                {([
+                  ['tools', `Tools (${tools.length})`],
+                  ['resources', `Resources (${resources.length})`],
+                  ['prompts', `Prompts (${prompts.length})`],
+                  ['logs', `Logs (${logs.length})`],
+                  ['conformance', 'Conformance'],
+                  ['compare', 'Compare']
+                ] as [ExplorerTab, string][]).map(([tab, label]) => (
+                  <button
+                    key={tab}
+                    onClick={() => setExplorerTab(tab)}
+                    className={`px-3 py-1 border rounded-lg transition-colors text-sm font-medium ${
+                      explorerTab === tab
+                        ? 'bg-gray-900 border-gray-900 text-white'
+                        : 'border-gray-300 hover:bg-gray-50 text-gray-700 hover:text-gray-900'
+                    }`}
+                  >
+                    {label}
+                    {tab === 'resources' && (updatedResources.length > 0 || resourcesListChanged) && (
+                      <span className="ml-1 text-yellow-500">●</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="p-6">
+            {/* Panels stay mounted so their selections and subscriptions survive tab switches */}
+            <div className={explorerTab === 'tools' ? '' : 'hidden'}>
+              <ToolsPanel
+                tools={tools}
+                connected={session !== null}
+                onList={listTools}
+                onCall={(name, args) => runRequest('tools/call', { name, arguments: args })}
+              />
+            </div>
+            <div className={explorerTab === 'resources' ? '' : 'hidden'}>
+              <ResourcesPanel
+                resources={resources}
+                templates={resourceTemplates}
+                connected={session !== null}
+                canSubscribe={isObject(session?.capabilities.resources) && session.capabilities.resources.subscribe === true}
+                updatedUris={updatedResources}
+                listChanged={resourcesListChanged}
+                onList={listResources}
+                onRead={uri => runRequest('resources/read', { uri })}
+                onSubscribe={(uri, subscribe) => runRequest(subscribe ? 'resources/subscribe' : 'resources/unsubscribe', { uri })}
+                onSeen={uri => setUpdatedResources(prev => prev.filter(existing => existing !== uri))}
+              />
+            </div>
+            <div className={explorerTab === 'prompts' ? '' : 'hidden'}>
+              <PromptsPanel
+                prompts={prompts}
+                connected={session !== null}
+                onList={listPrompts}
+                onGet={(name, args) => runRequest('prompts/get', { name, arguments: args })}
+              />
+            </div>
+            <div className={explorerTab === 'logs' ? '' : 'hidden'}>
+              <LogConsole
+                entries={logs}
+                connected={session !== null}
+                canSetLevel={isObject(session?.capabilities.logging)}
+                serverLevel={logLevel}
+                onSetLevel={setServerLogLevel}
+                onJump={jumpToEvent}
+                onClear={resetLogs}
+              />
+            </div>
+            <div className={explorerTab === 'conformance' ? '' : 'hidden'}>
+              <ConformancePanel
+                unsupported={transport === 'sse' ? 'The suite targets the Streamable HTTP transport; switch the transport to run it.' : undefined}
+                onRun={runConformanceSuite}
+                onJump={jumpToEvent}
+              />
+            </div>
+            <div className={explorerTab === 'compare' ? '' : 'hidden'}>
+              <ComparePanel sides={compareSides} onChange={setCompareSides} onJump={jumpToEvent} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
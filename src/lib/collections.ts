@@ -0,0 +1,137 @@
+/**
+ * Named collections of saved requests, kept in localStorage and shared as
+ * JSON files. A collection usually groups the requests for one server.
+ */
+
+export const COLLECTIONS_KEY = 'mcp-online-collections';
+export const COLLECTIONS_FILE_VERSION = 1;
+
+export interface SavedHeader {
+  key: string;
+  value: string;
+}
+
+export interface SavedRequest {
+  id: string;
+  name: string;
+  url: string;
+  method: string;
+  transport: string;
+  headers: SavedHeader[];
+  body: string;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  requests: SavedRequest[];
+}
+
+interface CollectionsFile {
+  version: number;
+  exportedAt: string;
+  collections: Collection[];
+}
+
+export function createId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function loadCollections(): Collection[] {
+  try {
+    const saved = localStorage.getItem(COLLECTIONS_KEY);
+    return saved ? parseCollections(JSON.parse(saved)) : [];
+  } catch (error) {
+    console.warn('Failed to load collections from localStorage:', error);
+    return [];
+  }
+}
+
+const listeners = new Set<() => void>();
+
+export function saveCollections(collections: Collection[]) {
+  try {
+    localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+  } catch (error) {
+    console.warn('Failed to save collections to localStorage:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/** Calls `listener` after every save, so each open workspace can reload. Returns the unsubscribe function. */
+export function subscribeCollections(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Returns a copy of `list` with the item at `from` moved to `to`. */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length || from === to) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export function duplicateRequest(request: SavedRequest): SavedRequest {
+  return { ...request, id: createId(), name: `${request.name} copy`, headers: request.headers.map(h => ({ ...h })) };
+}
+
+export function exportCollections(collections: Collection[]): string {
+  const file: CollectionsFile = {
+    version: COLLECTIONS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported collections file. Imported collections get fresh ids so
+ * importing the same file twice does not collide with what is already saved.
+ */
+export function importCollections(text: string): Collection[] {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Collections file is not valid JSON');
+  }
+  const list = Array.isArray(file) ? file : (file as Partial<CollectionsFile> | null)?.collections;
+  if (!Array.isArray(list)) {
+    throw new Error('Collections file has no "collections" array');
+  }
+  return parseCollections(list).map(collection => ({
+    ...collection,
+    id: createId(),
+    requests: collection.requests.map(request => ({ ...request, id: createId() }))
+  }));
+}
+
+function asString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+// Accepts anything JSON.parse produced and keeps only well-formed entries
+function parseCollections(value: unknown): Collection[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+    .map(entry => ({
+      id: asString(entry.id, createId()),
+      name: asString(entry.name, 'Untitled collection'),
+      requests: (Array.isArray(entry.requests) ? entry.requests : [])
+        .filter((request): request is Record<string, unknown> => typeof request === 'object' && request !== null)
+        .map(request => ({
+          id: asString(request.id, createId()),
+          name: asString(request.name, 'Untitled request'),
+          url: asString(request.url, ''),
+          method: asString(request.method, 'POST'),
+          transport: asString(request.transport, 'streamable-http'),
+          headers: (Array.isArray(request.headers) ? request.headers : [])
+            .filter((header): header is SavedHeader => typeof header?.key === 'string' && typeof header?.value === 'string')
+            .map(header => ({ key: header.key, value: header.value })),
+          body: asString(request.body, '')
+        }))
+    }));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { CheckResult, ConformanceReport, reportToJUnit, reportToJson } from "@/lib/conformance";
+
+function check(id: string, status: CheckResult['status'], message: string): CheckResult {
+  return { id, name: `Check ${id}`, status, message, durationMs: 250, evidence: [] };
+}
+
+const report: ConformanceReport = {
+  target: 'https://mcp.example.com/mcp?a=1&b=2',
+  startedAt: '2025-01-01T00:00:00.000Z',
+  finishedAt: '2025-01-01T00:00:01.000Z',
+  protocolVersion: '2025-06-18',
+  server: 'demo 1.0',
+  checks: [
+    check('ping', 'pass', 'pong'),
+    check('tools', 'fail', 'expected <array> & got "null"\u0001'),
+    check('session', 'skip', 'no session id')
+  ]
+};
+
+describe("reportToJUnit", () => {
+  const xml = reportToJUnit(report);
+
+  it("counts tests, failures and skips on the suite", () => {
+    expect(xml).toContain('<testsuites name="MCP conformance" tests="3" failures="1" skipped="1" time="0.750">');
+    expect(xml.match(/<testcase /g)).toHaveLength(3);
+    expect(xml.match(/<failure /g)).toHaveLength(1);
+    expect(xml.match(/<skipped /g)).toHaveLength(1);
+  });
+
+  it("escapes markup and drops control characters", () => {
+    expect(xml).toContain('<failure message="expected &lt;array&gt; &amp; got &quot;null&quot;">');
+    expect(xml).toContain('<testsuite name="https://mcp.example.com/mcp?a=1&amp;b=2"');
+    expect(xml).not.toContain('\u0001');
+  });
+});
+
+describe("reportToJson", () => {
+  it("round-trips the report", () => {
+    expect(JSON.parse(reportToJson(report))).toEqual(report);
+  });
+});
@@ -0,0 +1,326 @@
+// Scripted conformance checks for Streamable HTTP MCP servers. Every check runs
+// its own exchanges and keeps them as evidence, so a report can be attached to
+// a server PR without the tester at hand.
+
+import { defaultValue } from "@/lib/jsonSchema";
+import { validateMcpPayload } from "@/lib/mcpSchema";
+import { createSSEParser } from "@/lib/sse";
+import {
+  JsonRpcId,
+  JsonRpcResponse,
+  McpSession,
+  SESSION_ID_HEADER,
+  Tool,
+  buildInitializeRequest,
+  buildInitializedNotification,
+  createSession,
+  isJsonRpcResponse,
+  isObject,
+  parseJsonRpcMessages,
+  sessionHeaders,
+  setHeader
+} from "@/lib/mcp";
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface Evidence {
+  request: string;
+  status?: number;
+  response?: string;
+  /** Id of the stream event showing the response, when the caller recorded one. */
+  eventId?: string;
+}
+
+export interface CheckResult {
+  id: string;
+  name: string;
+  status: CheckStatus;
+  message: string;
+  durationMs: number;
+  evidence: Evidence[];
+}
+
+export interface ConformanceReport {
+  target: string;
+  startedAt: string;
+  finishedAt: string;
+  protocolVersion?: string;
+  server?: string;
+  checks: CheckResult[];
+}
+
+export interface ConformanceOptions {
+  url: string;
+  headers: Record<string, string>;
+  fetcher: (url: string, init: RequestInit & { headers: Record<string, string> }) => Promise<Response>;
+  /** Records an exchange (e.g. as stream events) and returns an id to link it by. */
+  onExchange?: (evidence: Evidence) => string | undefined;
+  onCheck?: (result: CheckResult) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+interface Exchange {
+  status: number;
+  headers: Headers;
+  text: string;
+  response?: JsonRpcResponse;
+}
+
+/** A failed expectation; its message ends up on the check. */
+class CheckFailure extends Error {}
+
+class CheckSkipped extends Error {}
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new CheckFailure(message);
+}
+
+// Reads a JSON body or an SSE stream until the response to `id` shows up
+async function readExchange(response: Response, id: JsonRpcId | undefined): Promise<Exchange> {
+  const exchange: Exchange = { status: response.status, headers: response.headers, text: '' };
+  const contentType = response.headers.get('Content-Type') || '';
+
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    exchange.text = await response.text();
+    exchange.response = parseJsonRpcMessages(exchange.text).find(isJsonRpcResponse);
+    return exchange;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const events: string[] = [];
+  const parser = createSSEParser({
+    onEvent: message => {
+      events.push(message.data);
+      const match = parseJsonRpcMessages(message.data).find(
+        (candidate): candidate is JsonRpcResponse => isJsonRpcResponse(candidate) && (id === undefined || candidate.id === id)
+      );
+      if (match) exchange.response = match;
+    }
+  });
+  while (!exchange.response) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.feed(decoder.decode(value, { stream: true }));
+  }
+  reader.cancel().catch(() => undefined);
+  exchange.text = events.join('\n');
+  return exchange;
+}
+
+function excerpt(text: string, limit = 2000): string {
+  return text.length > limit ? `${text.slice(0, limit)}…` : text;
+}
+
+/**
+ * Runs the suite: handshake, ping, tools, error codes, session id enforcement
+ * and termination. Checks that depend on an earlier one are skipped when it fails.
+ */
+export async function runConformance(options: ConformanceOptions): Promise<ConformanceReport> {
+  const { url, fetcher, onExchange, onCheck, signal, timeoutMs = 15000 } = options;
+  const report: ConformanceReport = { target: url, startedAt: new Date().toISOString(), finishedAt: '', checks: [] };
+  let session: McpSession | null = null;
+  let nextId = 1;
+
+  async function send(
+    evidence: Evidence[],
+    body: unknown,
+    overrides: { method?: string; headers?: Record<string, string>; withSession?: boolean } = {}
+  ): Promise<Exchange> {
+    const method = overrides.method ?? 'POST';
+    const headers = { ...options.headers, ...(overrides.withSession === false ? {} : sessionHeaders(session)), ...overrides.headers };
+    setHeader(headers, 'Accept', 'application/json, text/event-stream');
+    if (method === 'POST') setHeader(headers, 'Content-Type', 'application/json');
+    const payload = typeof body === 'string' ? body : body === undefined ? undefined : JSON.stringify(body);
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetcher(url, {
+      method,
+      headers,
+      body: payload,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+    });
+    const id = isObject(body) && (typeof body.id === 'number' || typeof body.id === 'string') ? body.id : undefined;
+    const exchange = await readExchange(response, id);
+
+    const entry: Evidence = {
+      request: `${method} ${url}${payload ? `\n${payload}` : ''}`,
+      status: exchange.status,
+      response: excerpt(exchange.text)
+    };
+    entry.eventId = onExchange?.(entry);
+    evidence.push(entry);
+    return exchange;
+  }
+
+  function request(evidence: Evidence[], method: string, params?: Record<string, unknown>, overrides?: Parameters<typeof send>[2]) {
+    return send(evidence, { jsonrpc: '2.0', id: nextId++, method, ...(params ? { params } : {}) }, overrides);
+  }
+
+  function violations(exchange: Exchange, method: string): string[] {
+    if (!exchange.response) return [];
+    return validateMcpPayload(JSON.stringify(exchange.response), session?.protocolVersion ?? '', () => method)
+      .map(violation => `${violation.path} ${violation.message}`);
+  }
+
+  async function check(id: string, name: string, run: (evidence: Evidence[]) => Promise<string>) {
+    const evidence: Evidence[] = [];
+    const started = performance.now();
+    let status: CheckStatus = 'pass';
+    let message: string;
+    try {
+      message = await run(evidence);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      status = err instanceof CheckSkipped ? 'skip' : 'fail';
+      message = err instanceof Error ? err.message : String(err);
+    }
+    const result: CheckResult = { id, name, status, message, durationMs: Math.round(performance.now() - started), evidence };
+    report.checks.push(result);
+    onCheck?.(result);
+    return result;
+  }
+
+  function requireSession() {
+    if (!session) throw new CheckSkipped('Skipped: the handshake failed');
+  }
+
+  await check('handshake', 'Initialize handshake', async evidence => {
+    const exchange = await send(evidence, buildInitializeRequest(nextId++), { withSession: false });
+    expect(exchange.status === 200, `initialize returned HTTP ${exchange.status}`);
+    expect(exchange.response?.result, exchange.response?.error
+      ? `initialize failed: ${exchange.response.error.message}`
+      : 'No initialize response');
+    const problems = violations(exchange, 'initialize');
+    expect(problems.length === 0, `InitializeResult violates the schema: ${problems.join('; ')}`);
+    session = createSession(exchange.response.result, exchange.headers.get(SESSION_ID_HEADER));
+    report.protocolVersion = session.protocolVersion;
+    report.server = `${session.serverInfo.name} ${session.serverInfo.version}`.trim();
+
+    const initialized = await send(evidence, buildInitializedNotification());
+    expect(initialized.status === 202, `notifications/initialized returned HTTP ${initialized.status}, expected 202`);
+    return `Protocol ${session.protocolVersion}${session.sessionId ? `, session ${session.sessionId}` : ', no session id'}`;
+  });
+
+  await check('ping', 'Ping', async evidence => {
+    requireSession();
+    const exchange = await request(evidence, 'ping');
+    expect(exchange.response?.result, 'ping got no result');
+    return 'ping answered with a result';
+  });
+
+  let tools: Tool[] = [];
+  await check('tools-list', 'List tools', async evidence => {
+    requireSession();
+    if (!isObject(session!.capabilities.tools)) throw new CheckSkipped('Skipped: server does not declare tools');
+    const exchange = await request(evidence, 'tools/list');
+    expect(exchange.response?.result, 'tools/list got no result');
+    const problems = violations(exchange, 'tools/list');
+    expect(problems.length === 0, `ListToolsResult violates the schema: ${problems.join('; ')}`);
+    tools = exchange.response.result.tools as Tool[];
+    return `${tools.length} tools`;
+  });
+
+  for (const tool of tools) {
+    await check(`tools-call-${tool.name}`, `Call tool ${tool.name}`, async evidence => {
+      if (tool.annotations?.destructiveHint === true) throw new CheckSkipped('Skipped: tool is marked destructive');
+      const exchange = await request(evidence, 'tools/call', { name: tool.name, arguments: defaultValue(tool.inputSchema) ?? {} });
+      expect(exchange.response, 'tools/call got no response');
+      // Default arguments may well be rejected; the answer just has to be well formed
+      if (exchange.response.error) return `Rejected with error ${exchange.response.error.code}: ${exchange.response.error.message}`;
+      const problems = violations(exchange, 'tools/call');
+      expect(problems.length === 0, `CallToolResult violates the schema: ${problems.join('; ')}`);
+      return exchange.response.result?.isError === true ? 'Tool reported an error result' : 'Tool returned a result';
+    });
+  }
+
+  await check('unknown-method', 'Unknown method returns -32601', async evidence => {
+    requireSession();
+    const exchange = await request(evidence, 'conformance/does-not-exist');
+    expect(exchange.response?.error, 'Expected an error response');
+    expect(exchange.response.error.code === -32601, `Expected error -32601, got ${exchange.response.error.code}`);
+    return 'Method not found (-32601)';
+  });
+
+  await check('malformed-json', 'Malformed JSON returns -32700', async evidence => {
+    requireSession();
+    const exchange = await send(evidence, '{"jsonrpc": "2.0", "id": ');
+    expect(exchange.response?.error, `Expected a JSON-RPC parse error, got HTTP ${exchange.status}`);
+    expect(exchange.response.error.code === -32700, `Expected error -32700, got ${exchange.response.error.code}`);
+    return `Parse error (-32700) with HTTP ${exchange.status}`;
+  });
+
+  await check('session-required', 'Requests without a session id are rejected', async evidence => {
+    requireSession();
+    if (!session!.sessionId) throw new CheckSkipped('Skipped: server did not assign a session id');
+    const missing = await request(evidence, 'ping', undefined, { withSession: false });
+    expect(missing.status === 400, `Without ${SESSION_ID_HEADER}: HTTP ${missing.status}, expected 400`);
+    const unknown = await request(evidence, 'ping', undefined, { headers: { [SESSION_ID_HEADER]: 'conformance-unknown-session' } });
+    expect(unknown.status === 404, `With an unknown session id: HTTP ${unknown.status}, expected 404`);
+    return 'Missing session id gets 400, unknown session id gets 404';
+  });
+
+  await check('session-delete', 'DELETE terminates the session', async evidence => {
+    requireSession();
+    if (!session!.sessionId) throw new CheckSkipped('Skipped: server did not assign a session id');
+    const deleted = await send(evidence, undefined, { method: 'DELETE' });
+    if (deleted.status === 405) return 'Server does not allow clients to terminate sessions (405)';
+    expect(deleted.status >= 200 && deleted.status < 300, `DELETE returned HTTP ${deleted.status}`);
+    const after = await request(evidence, 'ping');
+    expect(after.status === 404, `After termination: HTTP ${after.status}, expected 404`);
+    return 'Session terminated; later requests get 404';
+  });
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
+
+export function reportToJson(report: ConformanceReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function describeEvidence(evidence: Evidence[]): string {
+  return evidence
+    .map(entry => `>>> ${entry.request}\n<<< ${entry.status ?? ''}\n${entry.response ?? ''}`)
+    .join('\n\n');
+}
+
+/** JUnit XML with one testcase per check, as CI systems expect. */
+export function reportToJUnit(report: ConformanceReport): string {
+  const count = (status: CheckStatus) => report.checks.filter(check => check.status === status).length;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const total = report.checks.reduce((sum, check) => sum + check.durationMs, 0);
+  const cases = report.checks.map(check => {
+    const outcome = check.status === 'fail'
+      ? `\n      <failure message="${escapeXml(check.message)}">${escapeXml(describeEvidence(check.evidence))}</failure>`
+      : check.status === 'skip'
+        ? `\n      <skipped message="${escapeXml(check.message)}"/>`
+        : '';
+    return `    <testcase classname="mcp.conformance" name="${escapeXml(check.name)}" time="${seconds(check.durationMs)}">${outcome}
+      <system-out>${escapeXml(`${check.message}\n\n${describeEvidence(check.evidence)}`)}</system-out>
+    </testcase>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="MCP conformance" tests="${report.checks.length}" failures="${count('fail')}" skipped="${count('skip')}" time="${seconds(total)}">
+  <testsuite name="${escapeXml(report.target)}" tests="${report.checks.length}" failures="${count('fail')}" skipped="${count('skip')}" time="${seconds(total)}" timestamp="${report.startedAt}">
+    <properties>
+      <property name="protocolVersion" value="${escapeXml(report.protocolVersion ?? '')}"/>
+      <property name="server" value="${escapeXml(report.server ?? '')}"/>
+    </properties>
+${cases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+}
@@ -0,0 +1,12 @@
+/** Saves text as a file through a temporary object URL. */
+export function downloadFile(text: string, filename: string, type = 'application/json') {
+  const blob = new Blob([text], { type });
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(href);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { resolveJsonVariables, resolveVariables } from "@/lib/environments";
+
+const variables = { name: 'say "hi"\\\nbye', id: "7" };
+
+describe("resolveVariables", () => {
+  it("substitutes values and reports undefined placeholders once", () => {
+    expect(resolveVariables("{{ id }}/{{nope}}/{{nope}}", variables)).toEqual({
+      value: "7/{{nope}}/{{nope}}",
+      missing: ["nope"]
+    });
+  });
+});
+
+describe("resolveJsonVariables", () => {
+  it("escapes values inside string literals", () => {
+    const { value } = resolveJsonVariables('{"text": "<{{name}}>"}', variables);
+    expect(JSON.parse(value)).toEqual({ text: '<say "hi"\\\nbye>' });
+  });
+
+  it("substitutes placeholders outside strings as-is", () => {
+    const { value, missing } = resolveJsonVariables('{"id": {{id}}, "a\\"{{id}}": "{{other}}"}', variables);
+    expect(value).toBe('{"id": 7, "a\\"7": "{{other}}"}');
+    expect(missing).toEqual(["other"]);
+  });
+});
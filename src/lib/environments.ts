@@ -0,0 +1,120 @@
+/**
+ * Named variable sets (local, staging, prod, ...) whose values replace
+ * `{{name}}` placeholders in the URL, header values and request body at send time.
+ */
+
+import { createId } from "@/lib/collections";
+
+export const ENVIRONMENTS_KEY = 'mcp-online-environments';
+
+export interface EnvironmentVariable {
+  key: string;
+  value: string;
+}
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: EnvironmentVariable[];
+}
+
+export interface Resolved {
+  value: string;
+  missing: string[];
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const JSON_STRING = /"(?:[^"\\]|\\.)*"/g;
+
+export function createEnvironment(name: string): Environment {
+  return { id: createId(), name, variables: [{ key: '', value: '' }] };
+}
+
+export function loadEnvironments(): Environment[] {
+  try {
+    const saved = localStorage.getItem(ENVIRONMENTS_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(isEnvironment) : [];
+  } catch (error) {
+    console.warn('Failed to load environments from localStorage:', error);
+    return [];
+  }
+}
+
+const listeners = new Set<() => void>();
+
+export function saveEnvironments(environments: Environment[]) {
+  try {
+    localStorage.setItem(ENVIRONMENTS_KEY, JSON.stringify(environments));
+  } catch (error) {
+    console.warn('Failed to save environments to localStorage:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/** Calls `listener` after every save, so each open workspace can reload. Returns the unsubscribe function. */
+export function subscribeEnvironments(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Flattens an environment into a lookup table; later rows win over earlier ones with the same key. */
+export function environmentVariables(environment: Environment | undefined): Record<string, string> {
+  const variables: Record<string, string> = {};
+  environment?.variables.forEach(({ key, value }) => {
+    if (key.trim()) variables[key.trim()] = value;
+  });
+  return variables;
+}
+
+/**
+ * Replaces each `{{name}}` in `text` with its value. Undefined placeholders are
+ * left in place and reported in `missing`, once each.
+ */
+export function resolveVariables(
+  text: string,
+  variables: Record<string, string>,
+  encode: (value: string) => string = value => value,
+  missing: string[] = []
+): Resolved {
+  const value = text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) return encode(variables[name]);
+    if (!missing.includes(name)) missing.push(name);
+    return placeholder;
+  });
+  return { value, missing };
+}
+
+/**
+ * Like `resolveVariables` for a JSON request body: values placed inside string
+ * literals are escaped, so quotes, backslashes and newlines stay part of the
+ * string. Placeholders outside strings (`"id": {{id}}`) are substituted as-is.
+ */
+export function resolveJsonVariables(text: string, variables: Record<string, string>): Resolved {
+  const missing: string[] = [];
+  let value = '';
+  let last = 0;
+  for (const match of text.matchAll(JSON_STRING)) {
+    value += resolveVariables(text.substring(last, match.index), variables, undefined, missing).value;
+    value += resolveVariables(match[0], variables, escapeJsonString, missing).value;
+    last = match.index + match[0].length;
+  }
+  value += resolveVariables(text.substring(last), variables, undefined, missing).value;
+  return { value, missing };
+}
+
+function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+export function hasPlaceholders(text: string): boolean {
+  return new RegExp(PLACEHOLDER.source).test(text);
+}
+
+function isEnvironment(value: unknown): value is Environment {
+  if (typeof value !== 'object' || value === null) return false;
+  const environment = value as Partial<Environment>;
+  return typeof environment.id === 'string'
+    && typeof environment.name === 'string'
+    && Array.isArray(environment.variables);
+}
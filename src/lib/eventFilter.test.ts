@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_FILTER, EventFilter, FilterableEvent, filterEvents, formatExtracted, isFilterActive } from "@/lib/eventFilter";
+
+interface TestEvent extends FilterableEvent {
+  id: string;
+}
+
+const events: TestEvent[] = [
+  { id: "connect", type: "connection", raw: "Connected to https://mcp.example.com" },
+  { id: "list", type: "data", raw: '{"jsonrpc":"2.0","id":1,"method":"tools/list"}', rpc: { method: "tools/list", id: 1 } },
+  {
+    id: "result",
+    type: "data",
+    raw: '{"jsonrpc":"2.0","id":1,"result":{"tools":[{"name":"echo"},{"name":"add"}]}}',
+    rpc: { method: "tools/list", id: 1 }
+  },
+  { id: "call", type: "data", raw: '{"jsonrpc":"2.0","id":"1","method":"tools/call"}', rpc: { method: "tools/call", id: "1" } },
+  { id: "oops", type: "error", raw: "Stream error: socket hang up" }
+];
+
+function visibleIds(filter: Partial<EventFilter>): string[] {
+  return filterEvents(events, { ...EMPTY_FILTER, ...filter }).visible.map(({ event }) => event.id);
+}
+
+describe("filterEvents", () => {
+  it("shows everything without a filter", () => {
+    expect(visibleIds({})).toEqual(events.map(event => event.id));
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+  });
+
+  it("filters by type, method substring and id", () => {
+    expect(visibleIds({ types: ["error", "connection"] })).toEqual(["connect", "oops"]);
+    expect(visibleIds({ method: " TOOLS/L " })).toEqual(["list", "result"]);
+    // Ids compare as text, so 1 and "1" both match
+    expect(visibleIds({ id: "1", method: "tools" })).toEqual(["list", "result", "call"]);
+  });
+
+  it("searches case-insensitively as text or as a regex", () => {
+    expect(visibleIds({ search: "HANG" })).toEqual(["oops"]);
+    expect(visibleIds({ search: "tools/(list|call)\"\\}$", regex: true })).toEqual(["list", "call"]);
+  });
+
+  it("reports an invalid regex and ignores it instead of hiding everything", () => {
+    const result = filterEvents(events, { ...EMPTY_FILTER, search: "(", regex: true });
+    expect(result.searchError).toBeTruthy();
+    expect(result.visible).toHaveLength(events.length);
+  });
+
+  it("swaps events for JSONPath matches and drops events without any", () => {
+    const result = filterEvents(events, { ...EMPTY_FILTER, jsonPath: "$.result.tools[*].name" });
+    expect(result.visible).toEqual([{ event: events[2], extracted: ["echo", "add"] }]);
+  });
+
+  it("reuses parsed events and extracted values across calls", () => {
+    const parsed: TestEvent = { id: "parsed", type: "data", raw: "not json", formatted: { value: 42 } };
+    const filter = { ...EMPTY_FILTER, jsonPath: "$.value" };
+    const first = filterEvents([parsed], filter).visible[0];
+    expect(first.extracted).toEqual([42]);
+    expect(filterEvents([parsed], filter).visible[0].extracted).toBe(first.extracted);
+    expect(filterEvents([parsed], { ...filter, jsonPath: "$.*" }).visible[0].extracted).not.toBe(first.extracted);
+  });
+
+  it("reports an invalid JSONPath and shows the unfiltered events", () => {
+    const result = filterEvents(events, { ...EMPTY_FILTER, jsonPath: "$.[" });
+    expect(result.jsonPathError).toMatch(/position/);
+    expect(result.visible.every(({ extracted }) => extracted === undefined)).toBe(true);
+    expect(result.visible).toHaveLength(events.length);
+  });
+});
+
+describe("formatExtracted", () => {
+  it("prints strings as-is and other values as JSON", () => {
+    expect(formatExtracted(["echo", 2, { a: 1 }])).toBe('echo\n2\n{\n  "a": 1\n}');
+  });
+});
@@ -0,0 +1,116 @@
+// Narrows the event stream by type, JSON-RPC method and id, text or regex, and
+// optionally swaps each event for the values a JSONPath picks out of it.
+
+import { compileJsonPath } from "@/lib/jsonPath";
+import { JsonRpcId } from "@/lib/mcp";
+
+export interface EventFilter {
+  /** Event types to show; empty shows all. */
+  types: string[];
+  method: string;
+  id: string;
+  search: string;
+  regex: boolean;
+  jsonPath: string;
+}
+
+export const EMPTY_FILTER: EventFilter = { types: [], method: '', id: '', search: '', regex: false, jsonPath: '' };
+
+export interface FilterableEvent {
+  type: string;
+  raw: string;
+  /** `raw` already parsed, when the event was recorded with JSON formatting on. */
+  formatted?: unknown;
+  rpc?: { method?: string; id?: JsonRpcId };
+}
+
+export interface FilteredEvent<T> {
+  event: T;
+  /** Values selected by the JSONPath, when one is set. */
+  extracted?: unknown[];
+}
+
+export interface FilterResult<T> {
+  visible: FilteredEvent<T>[];
+  searchError?: string;
+  jsonPathError?: string;
+}
+
+export function isFilterActive(filter: EventFilter): boolean {
+  return filter.types.length > 0 || !!filter.method.trim() || !!filter.id.trim() || !!filter.search || !!filter.jsonPath.trim();
+}
+
+function parseJson(event: FilterableEvent): { ok: true; value: unknown } | { ok: false } {
+  if (event.formatted !== undefined && event.formatted !== null) return { ok: true, value: event.formatted };
+  try {
+    return { ok: true, value: JSON.parse(event.raw) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// Buffered events are replaced rather than mutated, so each one's values are
+// worked out once per path; the same array also lets memoized rows skip re-rendering
+const extractedCache = new WeakMap<FilterableEvent, { path: string; extracted: unknown[] }>();
+
+function extractFrom(event: FilterableEvent, path: string, extract: (value: unknown) => unknown[]): unknown[] {
+  const cached = extractedCache.get(event);
+  if (cached?.path === path) return cached.extracted;
+  const parsed = parseJson(event);
+  const extracted = parsed.ok ? extract(parsed.value) : [];
+  extractedCache.set(event, { path, extracted });
+  return extracted;
+}
+
+/** Applies the filter; an invalid regex or path is reported and left out rather than hiding everything. */
+export function filterEvents<T extends FilterableEvent>(events: T[], filter: EventFilter): FilterResult<T> {
+  const result: FilterResult<T> = { visible: [] };
+
+  let matchesSearch: ((raw: string) => boolean) | null = null;
+  if (filter.search) {
+    if (filter.regex) {
+      try {
+        const pattern = new RegExp(filter.search, 'i');
+        matchesSearch = raw => pattern.test(raw);
+      } catch (err) {
+        result.searchError = err instanceof Error ? err.message : String(err);
+      }
+    } else {
+      const needle = filter.search.toLowerCase();
+      matchesSearch = raw => raw.toLowerCase().includes(needle);
+    }
+  }
+
+  let extract: ((value: unknown) => unknown[]) | null = null;
+  if (filter.jsonPath.trim()) {
+    try {
+      extract = compileJsonPath(filter.jsonPath);
+    } catch (err) {
+      result.jsonPathError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const method = filter.method.trim().toLowerCase();
+  const id = filter.id.trim();
+
+  for (const event of events) {
+    if (filter.types.length > 0 && !filter.types.includes(event.type)) continue;
+    if (method && !event.rpc?.method?.toLowerCase().includes(method)) continue;
+    if (id && (event.rpc?.id === undefined || String(event.rpc.id) !== id)) continue;
+    if (matchesSearch && !matchesSearch(event.raw)) continue;
+
+    if (extract) {
+      const extracted = extractFrom(event, filter.jsonPath.trim(), extract);
+      if (extracted.length === 0) continue;
+      result.visible.push({ event, extracted });
+    } else {
+      result.visible.push({ event });
+    }
+  }
+  return result;
+}
+
+/** Extracted values as text, one per line; strings are left unquoted. */
+export function formatExtracted(values: unknown[]): string {
+  return values.map(value => typeof value === 'string' ? value : JSON.stringify(value, null, 2)).join('\n');
+}
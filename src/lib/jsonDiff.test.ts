@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { diffJson, diffStats } from "@/lib/jsonDiff";
+
+describe("diffJson", () => {
+  it("reports keys named like Object.prototype members as added or removed", () => {
+    const diff = diffJson(JSON.parse('{"constructor": 1, "__proto__": 2}'), { toString: "x" });
+    expect(diff.children?.map(child => [child.label, child.kind])).toEqual([
+      ["constructor", "removed"],
+      ["__proto__", "removed"],
+      ["toString", "added"]
+    ]);
+    expect(diffStats(diff)).toEqual({ added: 1, removed: 2, changed: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+// Structural diff of two JSON values, e.g. a tools/list result before and
+// after a server deploy. Objects are compared key by key, arrays by position
+// or, when their items carry a common key field, by that field.
+
+import { childPath } from "@/lib/jsonSchema";
+
+export type DiffKind = 'unchanged' | 'added' | 'removed' | 'changed';
+
+export interface DiffNode {
+  kind: DiffKind;
+  /** Object key, array index, or `name=value` for items matched by key; unset at the root. */
+  label?: string;
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  /** Set when both sides are objects or both are arrays. */
+  children?: DiffNode[];
+}
+
+export interface DiffOptions {
+  /** Keys left out of the comparison at any depth, such as ids and timestamps. */
+  ignoreKeys?: string[];
+  /** Arrays of objects that all carry this field are matched by it instead of by position. */
+  arrayKey?: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function summarize(children: DiffNode[]): DiffKind {
+  return children.some(child => child.kind !== 'unchanged') ? 'changed' : 'unchanged';
+}
+
+// Values of `key` for every item, or null when the items can't be matched by it
+function itemKeys(items: unknown[], key: string): string[] | null {
+  const keys = items.map(item => {
+    const value = isPlainObject(item) ? item[key] : undefined;
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+  });
+  if (keys.some(value => value === null) || new Set(keys).size !== keys.length) return null;
+  return keys as string[];
+}
+
+function diffObjects(before: Record<string, unknown>, after: Record<string, unknown>, path: string, options: DiffOptions): DiffNode[] {
+  const ignored = new Set(options.ignoreKeys);
+  const keys = [...Object.keys(before), ...Object.keys(after).filter(key => !Object.hasOwn(before, key))];
+  return keys.filter(key => !ignored.has(key)).map(key => {
+    const childNodePath = childPath(path, key);
+    if (!Object.hasOwn(after, key)) return { kind: 'removed', label: key, path: childNodePath, before: before[key] };
+    if (!Object.hasOwn(before, key)) return { kind: 'added', label: key, path: childNodePath, after: after[key] };
+    return diffNode(before[key], after[key], childNodePath, key, options);
+  });
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string, options: DiffOptions): DiffNode[] {
+  const beforeKeys = options.arrayKey ? itemKeys(before, options.arrayKey) : null;
+  const afterKeys = options.arrayKey ? itemKeys(after, options.arrayKey) : null;
+
+  if (beforeKeys && afterKeys && (before.length > 0 || after.length > 0)) {
+    const afterIndex = new Map(afterKeys.map((key, index) => [key, index]));
+    const label = (key: string) => `${options.arrayKey}=${key}`;
+    const nodes: DiffNode[] = beforeKeys.map((key, index): DiffNode => {
+      const match = afterIndex.get(key);
+      if (match === undefined) return { kind: 'removed', label: label(key), path: childPath(path, index), before: before[index] };
+      return diffNode(before[index], after[match], childPath(path, match), label(key), options);
+    });
+    const beforeSet = new Set(beforeKeys);
+    afterKeys.forEach((key, index) => {
+      if (!beforeSet.has(key)) nodes.push({ kind: 'added', label: label(key), path: childPath(path, index), after: after[index] });
+    });
+    return nodes;
+  }
+
+  return Array.from({ length: Math.max(before.length, after.length) }, (_, index): DiffNode => {
+    const childNodePath = childPath(path, index);
+    if (index >= after.length) return { kind: 'removed', label: String(index), path: childNodePath, before: before[index] };
+    if (index >= before.length) return { kind: 'added', label: String(index), path: childNodePath, after: after[index] };
+    return diffNode(before[index], after[index], childNodePath, String(index), options);
+  });
+}
+
+function diffNode(before: unknown, after: unknown, path: string, label: string | undefined, options: DiffOptions): DiffNode {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const children = diffObjects(before, after, path, options);
+    return { kind: summarize(children), label, path, before, after, children };
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const children = diffArrays(before, after, path, options);
+    return { kind: summarize(children), label, path, before, after, children };
+  }
+  return { kind: Object.is(before, after) ? 'unchanged' : 'changed', label, path, before, after };
+}
+
+export function diffJson(before: unknown, after: unknown, options: DiffOptions = {}): DiffNode {
+  return diffNode(before, after, '$', undefined, options);
+}
+
+/** Counts added and removed subtrees and changed leaf values. */
+export function diffStats(node: DiffNode): DiffStats {
+  const stats: DiffStats = { added: 0, removed: 0, changed: 0 };
+  const visit = (current: DiffNode) => {
+    if (current.kind === 'added') stats.added++;
+    else if (current.kind === 'removed') stats.removed++;
+    else if (current.kind === 'changed' && !current.children) stats.changed++;
+    current.children?.forEach(visit);
+  };
+  visit(node);
+  return stats;
+}
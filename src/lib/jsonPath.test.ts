@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { JsonPathError, compileJsonPath } from "@/lib/jsonPath";
+
+const doc = {
+  result: {
+    tools: [
+      { name: "echo", inputSchema: { type: "object" } },
+      { name: "add", inputSchema: { type: "object", required: ["a"] } },
+      { name: "time" }
+    ],
+    "odd key": 1
+  }
+};
+
+function query(path: string, value: unknown = doc): unknown[] {
+  return compileJsonPath(path)(value);
+}
+
+describe("compileJsonPath", () => {
+  it("selects the root and dotted members", () => {
+    expect(query("$")).toEqual([doc]);
+    expect(query("$.result.tools[0].name")).toEqual(["echo"]);
+    expect(query("$.result.missing")).toEqual([]);
+  });
+
+  it("reads quoted names in brackets, including unions and escapes", () => {
+    expect(query("$['result']['odd key']")).toEqual([1]);
+    expect(query(`$.result.tools[0]["name", 'inputSchema']`)).toEqual(["echo", { type: "object" }]);
+    expect(query("$['it\\'s']", { "it's": true })).toEqual([true]);
+  });
+
+  it("does not pick up inherited members", () => {
+    expect(query("$.constructor", {})).toEqual([]);
+  });
+
+  it("selects indexes, negative indexes and index unions", () => {
+    expect(query("$.result.tools[-1].name")).toEqual(["time"]);
+    expect(query("$.result.tools[0, 2].name")).toEqual(["echo", "time"]);
+    expect(query("$.result.tools[5]")).toEqual([]);
+  });
+
+  it("expands wildcards over arrays and objects", () => {
+    expect(query("$.result.tools[*].name")).toEqual(["echo", "add", "time"]);
+    expect(query("$.result.tools[1].inputSchema.*")).toEqual(["object", ["a"]]);
+  });
+
+  it("takes slices with steps, including negative ones", () => {
+    const list = [0, 1, 2, 3, 4, 5];
+    expect(query("$[1:3]", list)).toEqual([1, 2]);
+    expect(query("$[:2]", list)).toEqual([0, 1]);
+    expect(query("$[-2:]", list)).toEqual([4, 5]);
+    expect(query("$[::2]", list)).toEqual([0, 2, 4]);
+    expect(query("$[::-1]", list)).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(query("$[4:1:-2]", list)).toEqual([4, 2]);
+  });
+
+  it("finds members at any depth with recursive descent", () => {
+    expect(query("$..name")).toEqual(["echo", "add", "time"]);
+    expect(query("$..type")).toEqual(["object", "object"]);
+    expect(query("$..[0]")).toEqual([{ name: "echo", inputSchema: { type: "object" } }, "a"]);
+  });
+
+  it("reports invalid paths with their position", () => {
+    const cases: [string, RegExp][] = [
+      ["result", /must start with "\$" at position 0/],
+      ["$.a[", /Expected "\]"/],
+      ["$['a", /Unterminated string at position 2/],
+      ["$['a'", /Expected "," or "\]" at position 5/],
+      ["$[1:2:0]", /step must not be 0/],
+      ["$[?(@.a)]", /Filter expressions are not supported/],
+      ["$[x]", /Expected an integer, got "x"/],
+      ["$[]", /Empty brackets/],
+      ["$a", /Unexpected "a" at position 1/]
+    ];
+    for (const [path, message] of cases) {
+      expect(() => compileJsonPath(path), path).toThrow(JsonPathError);
+      expect(() => compileJsonPath(path), path).toThrow(message);
+    }
+  });
+});
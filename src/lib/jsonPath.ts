@@ -0,0 +1,177 @@
+// A small JSONPath evaluator for picking values out of stream events:
+// $, .name, ['name'], [0], [-1], [*], .*, [start:end:step], [a,b] and ..name.
+// Filter expressions ([?(...)]) are not supported.
+
+type Segment =
+  | { kind: 'name'; names: string[]; descendant: boolean }
+  | { kind: 'index'; indexes: number[]; descendant: boolean }
+  | { kind: 'slice'; start?: number; end?: number; step: number; descendant: boolean }
+  | { kind: 'wildcard'; descendant: boolean };
+
+export class JsonPathError extends Error {
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'JsonPathError';
+  }
+}
+
+function parseQuoted(path: string, start: number): { value: string; end: number } {
+  const quote = path[start];
+  let value = '';
+  for (let i = start + 1; i < path.length; i++) {
+    const char = path[i];
+    if (char === '\\' && i + 1 < path.length) {
+      value += path[++i];
+    } else if (char === quote) {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+    }
+  }
+  throw new JsonPathError('Unterminated string', start);
+}
+
+function parseInteger(text: string, position: number): number {
+  if (!/^-?\d+$/.test(text)) throw new JsonPathError(`Expected an integer, got "${text}"`, position);
+  return Number(text);
+}
+
+// Parses the inside of [...] starting after the "["; returns the segment and the index after "]"
+function parseBracket(path: string, start: number, descendant: boolean): { segment: Segment; end: number } {
+  let i = start;
+  const skipSpaces = () => { while (path[i] === ' ') i++; };
+  skipSpaces();
+
+  if (path[i] === '*') {
+    i++;
+    skipSpaces();
+    if (path[i] !== ']') throw new JsonPathError('Expected "]"', i);
+    return { segment: { kind: 'wildcard', descendant }, end: i + 1 };
+  }
+  if (path[i] === '?') throw new JsonPathError('Filter expressions are not supported', i);
+
+  if (path[i] === "'" || path[i] === '"') {
+    const names: string[] = [];
+    for (;;) {
+      skipSpaces();
+      if (path[i] !== "'" && path[i] !== '"') throw new JsonPathError('Expected a quoted name', i);
+      const quoted = parseQuoted(path, i);
+      names.push(quoted.value);
+      i = quoted.end;
+      skipSpaces();
+      if (path[i] === ']') return { segment: { kind: 'name', names, descendant }, end: i + 1 };
+      if (path[i] !== ',') throw new JsonPathError('Expected "," or "]"', i);
+      i++;
+    }
+  }
+
+  const close = path.indexOf(']', i);
+  if (close === -1) throw new JsonPathError('Expected "]"', path.length);
+  const body = path.slice(i, close).replace(/\s+/g, '');
+  if (body.includes(':')) {
+    const parts = body.split(':');
+    if (parts.length > 3) throw new JsonPathError('Too many ":" in slice', i);
+    const [start, end, step] = parts.map(part => part === '' ? undefined : parseInteger(part, i));
+    if (step === 0) throw new JsonPathError('Slice step must not be 0', i);
+    return { segment: { kind: 'slice', start, end, step: step ?? 1, descendant }, end: close + 1 };
+  }
+  if (!body) throw new JsonPathError('Empty brackets', i);
+  const indexes = body.split(',').map(part => parseInteger(part, i));
+  return { segment: { kind: 'index', indexes, descendant }, end: close + 1 };
+}
+
+/** Parses a path into segments; throws JsonPathError with the position of the problem. */
+function parsePath(path: string): Segment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) throw new JsonPathError('Path must start with "$"', 0);
+
+  const segments: Segment[] = [];
+  let i = 1;
+  while (i < trimmed.length) {
+    let descendant = false;
+    if (trimmed.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (trimmed[i] === '.') {
+      i++;
+    } else if (trimmed[i] !== '[') {
+      throw new JsonPathError(`Unexpected "${trimmed[i]}"`, i);
+    }
+
+    if (trimmed[i] === '[') {
+      const { segment, end } = parseBracket(trimmed, i + 1, descendant);
+      segments.push(segment);
+      i = end;
+    } else if (trimmed[i] === '*') {
+      segments.push({ kind: 'wildcard', descendant });
+      i++;
+    } else {
+      const match = /^[^.[\]\s]+/.exec(trimmed.slice(i));
+      if (!match) throw new JsonPathError('Expected a member name', i);
+      segments.push({ kind: 'name', names: [match[0]], descendant });
+      i += match[0].length;
+    }
+  }
+  return segments;
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+// The node itself followed by everything below it, depth first
+function descendants(value: unknown): unknown[] {
+  return [value, ...children(value).flatMap(descendants)];
+}
+
+function sliceIndexes(length: number, segment: Extract<Segment, { kind: 'slice' }>): number[] {
+  const normalize = (index: number) => index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+  const indexes: number[] = [];
+  if (segment.step > 0) {
+    const start = normalize(segment.start ?? 0);
+    const end = normalize(segment.end ?? length);
+    for (let i = start; i < end; i += segment.step) indexes.push(i);
+  } else {
+    const start = segment.start === undefined ? length - 1 : Math.min(normalize(segment.start), length - 1);
+    const end = segment.end === undefined ? -1 : normalize(segment.end);
+    for (let i = start; i > end; i += segment.step) indexes.push(i);
+  }
+  return indexes;
+}
+
+function select(value: unknown, segment: Segment): unknown[] {
+  switch (segment.kind) {
+    case 'wildcard':
+      return children(value);
+    case 'name':
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return [];
+      return segment.names
+        .filter(name => Object.prototype.hasOwnProperty.call(value, name))
+        .map(name => (value as Record<string, unknown>)[name]);
+    case 'index':
+      if (!Array.isArray(value)) return [];
+      return segment.indexes
+        .map(index => index < 0 ? value.length + index : index)
+        .filter(index => index >= 0 && index < value.length)
+        .map(index => value[index]);
+    case 'slice':
+      if (!Array.isArray(value)) return [];
+      return sliceIndexes(value.length, segment).map(index => value[index]);
+  }
+}
+
+/** Parses a path once for use on many values. Throws JsonPathError on a bad path. */
+export function compileJsonPath(path: string): (value: unknown) => unknown[] {
+  const segments = parsePath(path);
+  return value => {
+    let nodes = [value];
+    for (const segment of segments) {
+      const scope = segment.descendant ? nodes.flatMap(descendants) : nodes;
+      nodes = scope.flatMap(node => select(node, segment));
+    }
+    return nodes;
+  };
+}
+
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { JsonSchema, validateSchema } from "@/lib/jsonSchema";
+
+describe("validateSchema", () => {
+  it("stops a $ref cycle that consumes no data", () => {
+    const schema: JsonSchema = {
+      $ref: '#/$defs/A',
+      $defs: {
+        A: { allOf: [{ $ref: '#/$defs/B' }], type: 'object' },
+        B: { anyOf: [{ $ref: '#/$defs/A' }] }
+      }
+    };
+    expect(validateSchema({}, schema)).toEqual([]);
+    expect(validateSchema(1, schema)).toEqual([{ path: '$', message: 'expected object, got integer' }]);
+  });
+
+  it("still follows a recursive $ref into nested values", () => {
+    const schema: JsonSchema = {
+      $ref: '#/$defs/Node',
+      $defs: {
+        Node: { type: 'object', properties: { value: { type: 'string' }, next: { $ref: '#/$defs/Node' } } }
+      }
+    };
+    expect(validateSchema({ value: 'a', next: { value: 'b', next: { value: 3 } } }, schema)).toEqual([
+      { path: '$.next.next.value', message: 'expected string, got integer' }
+    ]);
+  });
+
+  it("checks required and declared properties as own keys only", () => {
+    const schema: JsonSchema = { type: 'object', required: ['constructor'], properties: { name: { type: 'string' } } };
+    expect(validateSchema({}, schema)).toEqual([{ path: '$.constructor', message: 'is required' }]);
+    expect(validateSchema({ constructor: 1, toString: 2 }, schema)).toEqual([]);
+    expect(validateSchema({ constructor: undefined }, schema)).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+// A pragmatic subset of JSON Schema: enough to build forms from MCP tool
+// input schemas and to check values against them before sending.
+
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  enumNames?: string[];
+  const?: unknown;
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export interface SchemaViolation {
+  /** JSONPath of the offending value, e.g. "$.arguments.items[2]" */
+  path: string;
+  message: string;
+}
+
+/** Picks the first concrete type, treating ["string", "null"] as "string". */
+export function schemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find(type => type !== 'null') ?? schema.type[0];
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  if (schema.enum && schema.enum.length > 0) return typeof schema.enum[0];
+  return undefined;
+}
+
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Initial form value for a schema: its default, or an object holding the
+ * defaults of its properties. Optional fields without defaults stay unset.
+ */
+export function defaultValue(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+
+  switch (schemaType(schema)) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const propertyDefault = defaultValue(property);
+        const isEmptyObject = typeOf(propertyDefault) === 'object' && Object.keys(propertyDefault as object).length === 0;
+        // An optional nested object only appears once something is filled in
+        if (propertyDefault !== undefined && (!isEmptyObject || schema.required?.includes(key))) {
+          value[key] = propertyDefault;
+        }
+      }
+      return value;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+export function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+  if (!match) return undefined;
+  const definitions = match[1] === '$defs' ? root.$defs : root.definitions;
+  return definitions?.[decodeURIComponent(match[2])];
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  violations: SchemaViolation[],
+  // "$ref path" pairs being evaluated, so a ref that loops back without consuming data stops
+  activeRefs: Set<string>
+) {
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      violations.push({ path, message: `unresolved $ref ${schema.$ref}` });
+      return;
+    }
+    const key = `${schema.$ref} ${path}`;
+    if (activeRefs.has(key)) return;
+    activeRefs.add(key);
+    validateNode(value, target, path, root, violations, activeRefs);
+    activeRefs.delete(key);
+    return;
+  }
+
+  for (const part of schema.allOf || []) {
+    validateNode(value, part, path, root, violations, activeRefs);
+  }
+
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives) {
+    const results = alternatives.map(alternative => {
+      const result: SchemaViolation[] = [];
+      validateNode(value, alternative, path, root, result, activeRefs);
+      return result;
+    });
+    const passing = results.filter(result => result.length === 0).length;
+    if (passing === 0) {
+      // When every alternative rejects the same constant, e.g. a "type" discriminator, list the accepted values
+      const constMismatches = results.map(result => result.find(violation => violation.message.startsWith('must equal ')));
+      const discriminator = constMismatches[0]?.path;
+      if (discriminator && constMismatches.every(mismatch => mismatch?.path === discriminator)) {
+        const accepted = constMismatches.map(mismatch => mismatch!.message.slice('must equal '.length));
+        violations.push({ path: discriminator, message: `must be one of ${accepted.join(', ')}` });
+        return;
+      }
+      // Otherwise report the closest alternative so the message points at something concrete
+      const closest = results.reduce((best, result) => result.length < best.length ? result : best);
+      violations.push(...closest);
+      return;
+    }
+    if (schema.oneOf && passing > 1) {
+      violations.push({ path, message: `matches ${passing} oneOf alternatives, expected exactly one` });
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    violations.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    violations.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      violations.push({ path, message: `expected ${types.join(' | ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          violations.push({ path, message: `must match /${schema.pattern}/` });
+        }
+      } catch {
+        // An invalid pattern in the schema is the server's problem, not the value's
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      violations.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => validateNode(item, items, childPath(path, index), root, violations, activeRefs));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    // Own properties only, so keys like "constructor" don't find Object.prototype members
+    for (const key of schema.required || []) {
+      if (!Object.hasOwn(object, key)) {
+        violations.push({ path: childPath(path, key), message: 'is required' });
+      }
+    }
+    const properties = schema.properties || {};
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (propertyValue === undefined) continue;
+      if (Object.hasOwn(properties, key)) {
+        validateNode(propertyValue, properties[key], childPath(path, key), root, violations, activeRefs);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: childPath(path, key), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, childPath(path, key), root, violations, activeRefs);
+      }
+    }
+  }
+}
+
+/** Checks a value against a schema and lists every violation with its path. */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = '$',
+  root: JsonSchema = schema
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateNode(value, schema, path, root, violations, new Set());
+  return violations;
+}
@@ -0,0 +1,41 @@
+// Server log messages (notifications/message) and the syslog levels they use.
+
+import { isObject } from "@/lib/mcp";
+
+/** RFC 5424 severities, least severe first. */
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogEntry {
+  id: string;
+  time: string;
+  level: LogLevel;
+  logger?: string;
+  data: unknown;
+  /** Stream event the notification arrived in. */
+  eventId: string;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export function severity(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+/** Reads the params of notifications/message; unknown levels are kept as "info". */
+export function parseLogMessage(params: Record<string, unknown>): Pick<LogEntry, 'level' | 'logger' | 'data'> {
+  return {
+    level: isLogLevel(params.level) ? params.level : 'info',
+    logger: typeof params.logger === 'string' ? params.logger : undefined,
+    data: params.data
+  };
+}
+
+export function formatLogData(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (isObject(data) || Array.isArray(data)) return JSON.stringify(data);
+  return String(data);
+}
@@ -0,0 +1,276 @@
+// MCP protocol helpers shared by the stream tester.
+// See https://modelcontextprotocol.io/specification for the wire format.
+
+import { JsonSchema } from "@/lib/jsonSchema";
+
+export const LATEST_PROTOCOL_VERSION = "2025-06-18";
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  LATEST_PROTOCOL_VERSION,
+  "2025-03-26",
+  "2024-11-05"
+];
+
+export const CLIENT_INFO = {
+  name: "mcp-online",
+  title: "MCP Online",
+  version: "0.1.0"
+};
+
+export const SESSION_ID_HEADER = "Mcp-Session-Id";
+export const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+
+export type JsonRpcId = string | number;
+
+export type ProgressToken = string | number;
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: Record<string, unknown>;
+  error?: JsonRpcError;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export interface Implementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo: Implementation;
+  instructions?: string;
+}
+
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface Tool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  annotations?: ToolAnnotations;
+}
+
+export interface Resource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/** Text, image, audio, resource or resource_link content; fields vary by type. */
+export interface ContentBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface PromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface Prompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock;
+}
+
+/** Params of notifications/progress, minus the token. */
+export interface Progress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface McpSession {
+  sessionId: string | null;
+  protocolVersion: string;
+  serverInfo: Implementation;
+  capabilities: Record<string, unknown>;
+  instructions?: string;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return isObject(message) && typeof message.method === 'string' && 'id' in message;
+}
+
+export function isJsonRpcNotification(message: unknown): message is JsonRpcNotification {
+  return isObject(message) && typeof message.method === 'string' && !('id' in message);
+}
+
+export function isJsonRpcResponse(message: unknown): message is JsonRpcResponse {
+  return isObject(message) && !('method' in message) && 'id' in message &&
+    ('result' in message || 'error' in message);
+}
+
+/**
+ * Parses a payload into JSON-RPC messages. Batches (arrays) are flattened;
+ * anything that is not a JSON-RPC 2.0 object is dropped.
+ */
+export function parseJsonRpcMessages(raw: string): JsonRpcMessage[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.filter((item): item is JsonRpcMessage => isObject(item) && item.jsonrpc === "2.0");
+}
+
+export function buildInitializeRequest(id: JsonRpcId, capabilities: Record<string, unknown> = {}): JsonRpcRequest {
+  return {
+    jsonrpc: "2.0",
+    id,
+    method: "initialize",
+    params: {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities,
+      clientInfo: CLIENT_INFO
+    }
+  };
+}
+
+export function buildInitializedNotification(): JsonRpcNotification {
+  return { jsonrpc: "2.0", method: "notifications/initialized" };
+}
+
+/**
+ * Validates an initialize result and turns it into session state. Throws when
+ * the server picked a protocol version this client does not speak.
+ */
+export function createSession(result: unknown, sessionId: string | null): McpSession {
+  if (!isObject(result) || typeof result.protocolVersion !== 'string') {
+    throw new Error('Invalid initialize result: missing protocolVersion');
+  }
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+    throw new Error(`Unsupported protocol version: ${result.protocolVersion}`);
+  }
+  const serverInfo = isObject(result.serverInfo) ? result.serverInfo : {};
+  return {
+    sessionId,
+    protocolVersion: result.protocolVersion,
+    serverInfo: {
+      name: String(serverInfo.name ?? 'unknown'),
+      version: String(serverInfo.version ?? ''),
+      title: typeof serverInfo.title === 'string' ? serverInfo.title : undefined
+    },
+    capabilities: isObject(result.capabilities) ? result.capabilities : {},
+    instructions: typeof result.instructions === 'string' ? result.instructions : undefined
+  };
+}
+
+/** The token a request asked to be sent progress for, from `params._meta.progressToken`. */
+export function progressTokenOf(request: JsonRpcRequest): ProgressToken | undefined {
+  const meta = request.params?._meta;
+  if (!isObject(meta)) return undefined;
+  return typeof meta.progressToken === 'string' || typeof meta.progressToken === 'number' ? meta.progressToken : undefined;
+}
+
+/** Adds `_meta.progressToken` to a request, keeping any token it already carries. */
+export function withProgressToken(request: JsonRpcRequest, token: ProgressToken): JsonRpcRequest {
+  if (progressTokenOf(request) !== undefined) return request;
+  const params = request.params || {};
+  const meta = isObject(params._meta) ? params._meta : {};
+  return { ...request, params: { ...params, _meta: { ...meta, progressToken: token } } };
+}
+
+export function buildCancelledNotification(requestId: JsonRpcId, reason?: string): JsonRpcNotification {
+  return {
+    jsonrpc: "2.0",
+    method: "notifications/cancelled",
+    params: reason ? { requestId, reason } : { requestId }
+  };
+}
+
+/** Headers every request after initialization must carry. */
+export function sessionHeaders(session: McpSession | null): Record<string, string> {
+  if (!session) return {};
+  const headers: Record<string, string> = {
+    [PROTOCOL_VERSION_HEADER]: session.protocolVersion
+  };
+  if (session.sessionId) {
+    headers[SESSION_ID_HEADER] = session.sessionId;
+  }
+  return headers;
+}
+
+/** Short labels for the server capabilities, e.g. "resources (subscribe)". */
+export function describeCapabilities(capabilities: Record<string, unknown>): string[] {
+  return Object.entries(capabilities).map(([name, value]) => {
+    const flags = isObject(value)
+      ? Object.keys(value).filter(flag => value[flag] === true)
+      : [];
+    return flags.length > 0 ? `${name} (${flags.join(', ')})` : name;
+  });
+}
+
+/**
+ * Sets a header, replacing any existing entry whose name differs only in case.
+ */
+export function setHeader(headers: Record<string, string>, name: string, value: string) {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) delete headers[key];
+  }
+  headers[name] = value;
+}
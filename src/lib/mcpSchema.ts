@@ -0,0 +1,305 @@
+// Checks what servers send against the MCP schema of the negotiated protocol
+// version. The schema is transcribed by hand from the spec's schema.ts into the
+// JSON Schema subset jsonSchema.ts understands; unknown fields are allowed, as
+// they are in the spec.
+
+import { JsonSchema, SchemaViolation, childPath, validateSchema } from "@/lib/jsonSchema";
+import { JsonRpcId, LATEST_PROTOCOL_VERSION, isObject } from "@/lib/mcp";
+
+const string: JsonSchema = { type: 'string' };
+const boolean: JsonSchema = { type: 'boolean' };
+const number: JsonSchema = { type: 'number' };
+const anyObject: JsonSchema = { type: 'object' };
+const requestId: JsonSchema = { type: ['string', 'integer'] };
+// Unlike RequestId, a ProgressToken may be any number
+const progressToken: JsonSchema = { type: ['string', 'number'] };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+function content(type: string, properties: Record<string, JsonSchema>, required: string[]): JsonSchema {
+  return object({ type: { const: type }, annotations: ref('Annotations'), _meta: anyObject, ...properties }, ['type', ...required]);
+}
+
+const paginated = { nextCursor: string };
+
+// Which content blocks each revision knows about
+const CONTENT_BLOCKS: Record<string, string[]> = {
+  '2024-11-05': ['TextContent', 'ImageContent', 'EmbeddedResource'],
+  '2025-03-26': ['TextContent', 'ImageContent', 'AudioContent', 'EmbeddedResource'],
+  '2025-06-18': ['TextContent', 'ImageContent', 'AudioContent', 'ResourceLink', 'EmbeddedResource']
+};
+
+/** Result schemas by the method of the request they answer. */
+const RESULTS: Record<string, string> = {
+  'initialize': 'InitializeResult',
+  'ping': 'EmptyResult',
+  'tools/list': 'ListToolsResult',
+  'tools/call': 'CallToolResult',
+  'resources/list': 'ListResourcesResult',
+  'resources/templates/list': 'ListResourceTemplatesResult',
+  'resources/read': 'ReadResourceResult',
+  'resources/subscribe': 'EmptyResult',
+  'resources/unsubscribe': 'EmptyResult',
+  'prompts/list': 'ListPromptsResult',
+  'prompts/get': 'GetPromptResult',
+  'completion/complete': 'CompleteResult',
+  'logging/setLevel': 'EmptyResult'
+};
+
+/** Params schemas of notifications a server may send. */
+const NOTIFICATIONS: Record<string, JsonSchema> = {
+  'notifications/cancelled': object({ requestId, reason: string }, ['requestId']),
+  'notifications/progress': object({ progressToken, progress: number, total: number, message: string }, ['progressToken', 'progress']),
+  'notifications/message': object({ level: ref('LoggingLevel'), logger: string, data: {} }, ['level', 'data']),
+  'notifications/resources/updated': object({ uri: string }, ['uri']),
+  'notifications/resources/list_changed': anyObject,
+  'notifications/tools/list_changed': anyObject,
+  'notifications/prompts/list_changed': anyObject
+};
+
+/** Params schemas of requests a server may send, by the revision that introduced them. */
+const SERVER_REQUESTS: Record<string, { since: string; params?: JsonSchema }> = {
+  'ping': { since: '2024-11-05' },
+  'roots/list': { since: '2024-11-05' },
+  'sampling/createMessage': {
+    since: '2024-11-05',
+    params: object({
+      messages: arrayOf(ref('SamplingMessage')),
+      maxTokens: { type: 'integer' },
+      systemPrompt: string,
+      includeContext: { enum: ['none', 'thisServer', 'allServers'] },
+      temperature: number,
+      stopSequences: arrayOf(string),
+      modelPreferences: object({
+        hints: arrayOf(object({ name: string })),
+        costPriority: { type: 'number', minimum: 0, maximum: 1 },
+        speedPriority: { type: 'number', minimum: 0, maximum: 1 },
+        intelligencePriority: { type: 'number', minimum: 0, maximum: 1 }
+      }),
+      metadata: anyObject
+    }, ['messages', 'maxTokens'])
+  },
+  'elicitation/create': {
+    since: '2025-06-18',
+    params: object({
+      message: string,
+      requestedSchema: object({ type: { const: 'object' }, properties: anyObject, required: arrayOf(string) }, ['type', 'properties'])
+    }, ['message', 'requestedSchema'])
+  }
+};
+
+function buildSchema(version: string): JsonSchema {
+  const blocks = CONTENT_BLOCKS[version] ?? CONTENT_BLOCKS[LATEST_PROTOCOL_VERSION];
+  const resourceContents: JsonSchema = { anyOf: [ref('TextResourceContents'), ref('BlobResourceContents')] };
+
+  return {
+    $defs: {
+      Role: { enum: ['user', 'assistant'] },
+      LoggingLevel: { enum: ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] },
+      Annotations: object({
+        audience: arrayOf(ref('Role')),
+        priority: { type: 'number', minimum: 0, maximum: 1 },
+        lastModified: string
+      }),
+      Implementation: object({ name: string, title: string, version: string }, ['name', 'version']),
+      TextContent: content('text', { text: string }, ['text']),
+      ImageContent: content('image', { data: string, mimeType: string }, ['data', 'mimeType']),
+      AudioContent: content('audio', { data: string, mimeType: string }, ['data', 'mimeType']),
+      ResourceLink: content('resource_link', {
+        uri: string, name: string, title: string, description: string, mimeType: string, size: number
+      }, ['uri', 'name']),
+      EmbeddedResource: content('resource', { resource: resourceContents }, ['resource']),
+      ContentBlock: { anyOf: blocks.map(ref) },
+      TextResourceContents: object({ uri: string, mimeType: string, text: string }, ['uri', 'text']),
+      BlobResourceContents: object({ uri: string, mimeType: string, blob: string }, ['uri', 'blob']),
+      SamplingMessage: object({
+        role: ref('Role'),
+        content: { anyOf: blocks.filter(block => block !== 'ResourceLink' && block !== 'EmbeddedResource').map(ref) }
+      }, ['role', 'content']),
+      EmptyResult: anyObject,
+      InitializeResult: object({
+        protocolVersion: string,
+        capabilities: object({
+          experimental: anyObject,
+          logging: anyObject,
+          completions: anyObject,
+          prompts: object({ listChanged: boolean }),
+          resources: object({ subscribe: boolean, listChanged: boolean }),
+          tools: object({ listChanged: boolean })
+        }),
+        serverInfo: ref('Implementation'),
+        instructions: string
+      }, ['protocolVersion', 'capabilities', 'serverInfo']),
+      Tool: object({
+        name: string,
+        title: string,
+        description: string,
+        inputSchema: object({ type: { const: 'object' }, properties: anyObject, required: arrayOf(string) }, ['type']),
+        outputSchema: object({ type: { const: 'object' }, properties: anyObject, required: arrayOf(string) }, ['type']),
+        annotations: object({
+          title: string,
+          readOnlyHint: boolean,
+          destructiveHint: boolean,
+          idempotentHint: boolean,
+          openWorldHint: boolean
+        })
+      }, ['name', 'inputSchema']),
+      ListToolsResult: object({ tools: arrayOf(ref('Tool')), ...paginated }, ['tools']),
+      CallToolResult: object({ content: arrayOf(ref('ContentBlock')), structuredContent: anyObject, isError: boolean }, ['content']),
+      Resource: object({
+        uri: string, name: string, title: string, description: string, mimeType: string, size: number, annotations: ref('Annotations')
+      }, ['uri', 'name']),
+      ResourceTemplate: object({
+        uriTemplate: string, name: string, title: string, description: string, mimeType: string, annotations: ref('Annotations')
+      }, ['uriTemplate', 'name']),
+      ListResourcesResult: object({ resources: arrayOf(ref('Resource')), ...paginated }, ['resources']),
+      ListResourceTemplatesResult: object({ resourceTemplates: arrayOf(ref('ResourceTemplate')), ...paginated }, ['resourceTemplates']),
+      ReadResourceResult: object({ contents: arrayOf(resourceContents) }, ['contents']),
+      Prompt: object({
+        name: string,
+        title: string,
+        description: string,
+        arguments: arrayOf(object({ name: string, title: string, description: string, required: boolean }, ['name']))
+      }, ['name']),
+      ListPromptsResult: object({ prompts: arrayOf(ref('Prompt')), ...paginated }, ['prompts']),
+      GetPromptResult: object({
+        description: string,
+        messages: arrayOf(object({ role: ref('Role'), content: ref('ContentBlock') }, ['role', 'content']))
+      }, ['messages']),
+      CompleteResult: object({
+        completion: object({ values: { ...arrayOf(string), maxItems: 100 }, total: { type: 'integer' }, hasMore: boolean }, ['values'])
+      }, ['completion']),
+      Error: object({ code: { type: 'integer' }, message: string }, ['code', 'message'])
+    }
+  };
+}
+
+const schemas = new Map<string, JsonSchema>();
+
+function schemaFor(version: string): JsonSchema {
+  let schema = schemas.get(version);
+  if (!schema) {
+    schema = buildSchema(version);
+    schemas.set(version, schema);
+  }
+  return schema;
+}
+
+function validateDefinition(value: unknown, name: string, path: string, root: JsonSchema): SchemaViolation[] {
+  return validateSchema(value, ref(name), path, root);
+}
+
+function validateMessage(
+  message: Record<string, unknown>,
+  path: string,
+  version: string,
+  requestMethod: (id: JsonRpcId) => string | undefined
+): SchemaViolation[] {
+  const root = schemaFor(version);
+  const violations: SchemaViolation[] = [];
+  if (message.jsonrpc !== '2.0') {
+    violations.push({ path: childPath(path, 'jsonrpc'), message: 'must equal "2.0"' });
+  }
+
+  // Request or notification from the server
+  if (typeof message.method === 'string') {
+    const paramsPath = childPath(path, 'params');
+    if (message.params !== undefined && !isObject(message.params)) {
+      violations.push({ path: paramsPath, message: 'must be an object' });
+      return violations;
+    }
+
+    if ('id' in message) {
+      violations.push(...validateSchema(message.id, requestId, childPath(path, 'id'), root));
+      const known = SERVER_REQUESTS[message.method];
+      if (!known || known.since > version) {
+        violations.push({ path: childPath(path, 'method'), message: `${message.method} is not a server request in protocol ${version}` });
+      } else if (known.params) {
+        violations.push(...validateSchema(message.params, known.params, paramsPath, root));
+      }
+      return violations;
+    }
+
+    const params = NOTIFICATIONS[message.method];
+    if (!params) {
+      violations.push({ path: childPath(path, 'method'), message: `${message.method} is not a server notification in protocol ${version}` });
+    } else {
+      violations.push(...validateSchema(message.params ?? {}, params, paramsPath, root));
+    }
+    return violations;
+  }
+
+  // Response
+  const hasResult = 'result' in message;
+  const hasError = 'error' in message;
+  if (hasResult === hasError) {
+    violations.push({ path, message: 'must have exactly one of result or error' });
+    return violations;
+  }
+  if (hasError) {
+    // JSON-RPC answers unparseable requests with a null id
+    if (message.id !== null) violations.push(...validateSchema(message.id, requestId, childPath(path, 'id'), root));
+    violations.push(...validateDefinition(message.error, 'Error', childPath(path, 'error'), root));
+    return violations;
+  }
+
+  violations.push(...validateSchema(message.id, requestId, childPath(path, 'id'), root));
+  const resultPath = childPath(path, 'result');
+  if (!isObject(message.result)) {
+    violations.push({ path: resultPath, message: 'must be an object' });
+    return violations;
+  }
+  const method = typeof message.id === 'string' || typeof message.id === 'number' ? requestMethod(message.id) : undefined;
+  const resultSchema = method ? RESULTS[method] : undefined;
+  if (resultSchema) {
+    violations.push(...validateDefinition(message.result, resultSchema, resultPath, root));
+  }
+  return violations;
+}
+
+/**
+ * Validates a payload received from a server. `requestMethod` looks up which
+ * request a response id answers, so results can be checked against the
+ * matching result type. Payloads that are not JSON yield no violations.
+ */
+export function validateMcpPayload(
+  raw: string,
+  protocolVersion: string,
+  requestMethod: (id: JsonRpcId) => string | undefined
+): SchemaViolation[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+
+  const version = CONTENT_BLOCKS[protocolVersion] ? protocolVersion : LATEST_PROTOCOL_VERSION;
+  if (!Array.isArray(parsed)) {
+    return isObject(parsed) ? validateMessage(parsed, '$', version, requestMethod) : [{ path: '$', message: 'must be a JSON-RPC object' }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  if (version >= '2025-06-18') {
+    violations.push({ path: '$', message: `JSON-RPC batches are not allowed in protocol ${version}` });
+  }
+  parsed.forEach((item, index) => {
+    const path = childPath('$', index);
+    if (isObject(item)) {
+      violations.push(...validateMessage(item, path, version, requestMethod));
+    } else {
+      violations.push({ path, message: 'must be a JSON-RPC object' });
+    }
+  });
+  return violations;
+}
@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  Fetcher,
+  canonicalResource,
+  createPkce,
+  discoverAuthorizationServer,
+  discoverProtectedResource,
+  parseWwwAuthenticate
+} from "@/lib/oauth";
+
+// Answers 404 to everything and records which URLs were tried
+function recordingFetcher(): { fetcher: Fetcher; urls: string[] } {
+  const urls: string[] = [];
+  const fetcher: Fetcher = async url => {
+    urls.push(url);
+    return new Response("not found", { status: 404 });
+  };
+  return { fetcher, urls };
+}
+
+describe("parseWwwAuthenticate", () => {
+  it("reads the scheme and resource_metadata", () => {
+    const challenge = parseWwwAuthenticate(
+      'Bearer realm="mcp", resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource", error=invalid_token'
+    );
+    expect(challenge).toEqual({
+      scheme: "Bearer",
+      params: {
+        realm: "mcp",
+        resource_metadata: "https://mcp.example.com/.well-known/oauth-protected-resource",
+        error: "invalid_token"
+      }
+    });
+  });
+
+  it("lowercases parameter names and unescapes quoted values", () => {
+    const challenge = parseWwwAuthenticate('Bearer Resource_Metadata="https://a.test/\\"x\\""');
+    expect(challenge?.params.resource_metadata).toBe('https://a.test/"x"');
+  });
+
+  it("returns null without a header", () => {
+    expect(parseWwwAuthenticate(null)).toBeNull();
+    expect(parseWwwAuthenticate("")).toBeNull();
+  });
+});
+
+describe("canonicalResource", () => {
+  it("lowercases the scheme and host and drops a trailing slash", () => {
+    expect(canonicalResource("HTTPS://MCP.Example.com/Server/")).toBe("https://mcp.example.com/Server");
+  });
+
+  it("drops the root path, query and fragment but keeps the port", () => {
+    expect(canonicalResource("https://mcp.example.com:8443/?a=1#top")).toBe("https://mcp.example.com:8443");
+  });
+
+  it("throws for an invalid URL", () => {
+    expect(() => canonicalResource("not a url")).toThrow();
+  });
+});
+
+describe("well-known discovery", () => {
+  it("uses the resource_metadata URL from the challenge", async () => {
+    const { fetcher, urls } = recordingFetcher();
+    await discoverProtectedResource(
+      "https://mcp.example.com/mcp",
+      { scheme: "Bearer", params: { resource_metadata: "https://meta.example.com/prm" } },
+      fetcher
+    );
+    expect(urls).toEqual(["https://meta.example.com/prm"]);
+  });
+
+  it("inserts the RFC 9728 suffix before the path, then tries the root", async () => {
+    const { fetcher, urls } = recordingFetcher();
+    expect(await discoverProtectedResource("https://mcp.example.com/tenant/mcp/", null, fetcher)).toBeNull();
+    expect(urls).toEqual([
+      "https://mcp.example.com/.well-known/oauth-protected-resource/tenant/mcp",
+      "https://mcp.example.com/.well-known/oauth-protected-resource"
+    ]);
+  });
+
+  it("tries RFC 8414 and OpenID Connect locations and falls back to default endpoints", async () => {
+    const { fetcher, urls } = recordingFetcher();
+    const metadata = await discoverAuthorizationServer("https://auth.example.com/tenant1", fetcher);
+    expect(urls).toEqual([
+      "https://auth.example.com/.well-known/oauth-authorization-server/tenant1",
+      "https://auth.example.com/.well-known/openid-configuration/tenant1",
+      "https://auth.example.com/.well-known/oauth-authorization-server",
+      "https://auth.example.com/.well-known/openid-configuration",
+      "https://auth.example.com/tenant1/.well-known/openid-configuration"
+    ]);
+    expect(metadata).toEqual({
+      issuer: "https://auth.example.com",
+      authorization_endpoint: "https://auth.example.com/authorize",
+      token_endpoint: "https://auth.example.com/token",
+      registration_endpoint: "https://auth.example.com/register"
+    });
+  });
+
+  it("stops at the first usable authorization server metadata", async () => {
+    const urls: string[] = [];
+    const fetcher: Fetcher = async url => {
+      urls.push(url);
+      return Response.json({
+        issuer: "https://auth.example.com",
+        authorization_endpoint: "https://auth.example.com/oauth/authorize",
+        token_endpoint: "https://auth.example.com/oauth/token"
+      });
+    };
+    const metadata = await discoverAuthorizationServer("https://auth.example.com", fetcher);
+    expect(urls).toEqual(["https://auth.example.com/.well-known/oauth-authorization-server"]);
+    expect(metadata.token_endpoint).toBe("https://auth.example.com/oauth/token");
+  });
+
+  it("rejects metadata issued for a different issuer", async () => {
+    const fetcher: Fetcher = async () => Response.json({
+      issuer: "https://evil.example.net",
+      authorization_endpoint: "https://evil.example.net/authorize",
+      token_endpoint: "https://evil.example.net/token"
+    });
+    await expect(discoverAuthorizationServer("https://auth.example.com", fetcher)).rejects.toThrow(
+      /issuer https:\/\/evil\.example\.net, expected https:\/\/auth\.example\.com/
+    );
+  });
+});
+
+describe("createPkce", () => {
+  it("derives the S256 challenge from the verifier", async () => {
+    const { verifier, challenge } = await createPkce();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(challenge).toBe(createHash("sha256").update(verifier).digest("base64url"));
+  });
+
+  it("generates a new verifier each time", async () => {
+    const [first, second] = await Promise.all([createPkce(), createPkce()]);
+    expect(first.verifier).not.toBe(second.verifier);
+  });
+});
@@ -0,0 +1,437 @@
+// MCP authorization: OAuth 2.1 authorization code + PKCE against the
+// authorization server named in the server's protected resource metadata.
+// See https://modelcontextprotocol.io/specification/2025-06-18/basic/authorization
+
+import { CLIENT_INFO } from "@/lib/mcp";
+
+export const OAUTH_STORAGE_KEY = 'mcp-online-oauth';
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+export const OAUTH_CALLBACK_MESSAGE = 'mcp-online-oauth-callback';
+export const OAUTH_CALLBACK_STORAGE_KEY = 'mcp-online-oauth-callback';
+
+// Tokens this close to expiry are refreshed before use
+const EXPIRY_SKEW_MS = 30000;
+
+export type Fetcher = (url: string, init: RequestInit & { headers: Record<string, string> }) => Promise<Response>;
+
+export interface WwwAuthenticate {
+  scheme: string;
+  params: Record<string, string>;
+}
+
+/** RFC 9728 protected resource metadata */
+export interface ProtectedResourceMetadata {
+  resource?: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+/** RFC 8414 authorization server metadata */
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+/** What is kept per MCP server so later sessions can reuse or refresh the token. */
+export interface StoredAuthorization {
+  resource: string;
+  issuer: string;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret?: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  scope?: string;
+}
+
+export interface AuthorizeOptions {
+  serverUrl: string;
+  challenge?: WwwAuthenticate | null;
+  clientId?: string;
+  redirectUri: string;
+  fetcher: Fetcher;
+  /** Opens the authorization URL and resolves with the callback URL it redirected to. */
+  openAuthorization: (authorizationUrl: string) => Promise<URL>;
+  onStatus?: (message: string) => void;
+}
+
+/** Parses a `Bearer realm="x", resource_metadata="..."` challenge. Only the first challenge is read. */
+export function parseWwwAuthenticate(header: string | null): WwwAuthenticate | null {
+  if (!header) return null;
+  const match = header.match(/^\s*([\w-]+)\s*(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  const paramPattern = /([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  let param: RegExpExecArray | null;
+  while ((param = paramPattern.exec(match[2])) !== null) {
+    params[param[1].toLowerCase()] = param[2] !== undefined ? param[2].replace(/\\(.)/g, '$1') : param[3];
+  }
+  return { scheme: match[1], params };
+}
+
+/** The canonical URI of an MCP server, used as the RFC 8707 `resource` and as the storage key. */
+export function canonicalResource(serverUrl: string): string {
+  // URL already lowercases the scheme and host; the path keeps its case
+  const url = new URL(serverUrl);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return `${url.protocol}//${url.host}${path}`;
+}
+
+async function fetchJson<T>(url: string, fetcher: Fetcher): Promise<T | null> {
+  try {
+    const response = await fetcher(url, { method: 'GET', headers: { Accept: 'application/json' } });
+    if (!response.ok) return null;
+    return await response.json() as T;
+  } catch {
+    return null;
+  }
+}
+
+// Well-known URIs insert their suffix between the origin and the path (RFC 8414 section 3.1)
+function wellKnownUrls(base: string, suffixes: string[]): string[] {
+  const url = new URL(base);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  const urls = suffixes.map(suffix => `${url.origin}/.well-known/${suffix}${path}`);
+  if (path) {
+    urls.push(...suffixes.map(suffix => `${url.origin}/.well-known/${suffix}`));
+  }
+  return urls;
+}
+
+export async function discoverProtectedResource(
+  serverUrl: string,
+  challenge: WwwAuthenticate | null | undefined,
+  fetcher: Fetcher
+): Promise<ProtectedResourceMetadata | null> {
+  const candidates = challenge?.params.resource_metadata
+    ? [challenge.params.resource_metadata]
+    : wellKnownUrls(serverUrl, ['oauth-protected-resource']);
+  for (const candidate of candidates) {
+    const metadata = await fetchJson<ProtectedResourceMetadata>(candidate, fetcher);
+    if (metadata) return metadata;
+  }
+  return null;
+}
+
+/**
+ * Looks up authorization server metadata via RFC 8414 and then OpenID Connect
+ * discovery. Servers from the 2025-03-26 revision may publish neither, in
+ * which case the default endpoints on the issuer's origin are assumed.
+ * Metadata naming a different issuer is rejected (RFC 8414 section 3.3), so a
+ * hostile resource server can't send the token exchange elsewhere.
+ */
+export async function discoverAuthorizationServer(issuer: string, fetcher: Fetcher): Promise<AuthorizationServerMetadata> {
+  const url = new URL(issuer);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  const candidates = wellKnownUrls(issuer, ['oauth-authorization-server', 'openid-configuration']);
+  if (path) candidates.push(`${url.origin}${path}/.well-known/openid-configuration`);
+
+  for (const candidate of candidates) {
+    const metadata = await fetchJson<AuthorizationServerMetadata>(candidate, fetcher);
+    if (metadata?.authorization_endpoint && metadata.token_endpoint) {
+      // Only a trailing slash may differ, as the fallback issuer is a bare origin
+      if (String(metadata.issuer).replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+        throw new Error(`Authorization server metadata at ${candidate} is for issuer ${metadata.issuer}, expected ${issuer}`);
+      }
+      return metadata;
+    }
+  }
+  return {
+    issuer: url.origin,
+    authorization_endpoint: `${url.origin}/authorize`,
+    token_endpoint: `${url.origin}/token`,
+    registration_endpoint: `${url.origin}/register`
+  };
+}
+
+/** RFC 7591 dynamic client registration as a public client. */
+export async function registerClient(
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string,
+  fetcher: Fetcher
+): Promise<{ clientId: string; clientSecret?: string }> {
+  if (!metadata.registration_endpoint) {
+    throw new Error(`${metadata.issuer} does not support dynamic client registration; enter a client ID`);
+  }
+  const response = await fetcher(metadata.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: CLIENT_INFO.title,
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none'
+    })
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.client_id !== 'string') {
+    throw new Error(`Client registration failed: ${describeOAuthError(body, response)}`);
+  }
+  return { clientId: body.client_id, clientSecret: typeof body.client_secret === 'string' ? body.client_secret : undefined };
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function randomToken(byteLength = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/** PKCE verifier and its S256 challenge (RFC 7636). */
+export async function createPkce(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomToken(48);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+function describeOAuthError(body: Record<string, unknown>, response: Response): string {
+  if (typeof body.error === 'string') {
+    return typeof body.error_description === 'string' ? `${body.error}: ${body.error_description}` : body.error;
+  }
+  return `HTTP ${response.status}`;
+}
+
+async function requestToken(
+  tokenEndpoint: string,
+  params: Record<string, string>,
+  clientSecret: string | undefined,
+  fetcher: Fetcher
+): Promise<TokenResponse> {
+  const form = new URLSearchParams(params);
+  if (clientSecret) form.set('client_secret', clientSecret);
+  const response = await fetcher(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: form.toString()
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.access_token !== 'string') {
+    throw new Error(`Token request failed: ${describeOAuthError(body, response)}`);
+  }
+  return body as TokenResponse;
+}
+
+function storeTokens(previous: Omit<StoredAuthorization, 'accessToken'> & { accessToken?: string }, tokens: TokenResponse): StoredAuthorization {
+  return {
+    ...previous,
+    accessToken: tokens.access_token,
+    // Servers may keep the old refresh token valid without sending it again
+    refreshToken: tokens.refresh_token ?? previous.refreshToken,
+    expiresAt: tokens.expires_in !== undefined ? Date.now() + tokens.expires_in * 1000 : undefined,
+    scope: tokens.scope ?? previous.scope
+  };
+}
+
+export async function refreshAuthorization(authorization: StoredAuthorization, fetcher: Fetcher): Promise<StoredAuthorization> {
+  if (!authorization.refreshToken) {
+    throw new Error('No refresh token');
+  }
+  const tokens = await requestToken(authorization.tokenEndpoint, {
+    grant_type: 'refresh_token',
+    refresh_token: authorization.refreshToken,
+    client_id: authorization.clientId,
+    resource: authorization.resource
+  }, authorization.clientSecret, fetcher);
+  return storeTokens(authorization, tokens);
+}
+
+/**
+ * Runs the whole flow: discovery, optional dynamic registration, the
+ * authorization request in a browser window, and the code exchange.
+ */
+export async function authorize(options: AuthorizeOptions): Promise<StoredAuthorization> {
+  const { serverUrl, challenge, redirectUri, fetcher, onStatus } = options;
+  const resource = canonicalResource(serverUrl);
+
+  const resourceMetadata = await discoverProtectedResource(serverUrl, challenge, fetcher);
+  const issuer = resourceMetadata?.authorization_servers?.[0] ?? new URL(serverUrl).origin;
+  onStatus?.(resourceMetadata
+    ? `Protected resource metadata names authorization server ${issuer}`
+    : `No protected resource metadata; assuming ${issuer} is the authorization server`);
+
+  const metadata = await discoverAuthorizationServer(issuer, fetcher);
+  const methods = metadata.code_challenge_methods_supported;
+  if (methods && !methods.includes('S256')) {
+    throw new Error(`${metadata.issuer} does not support PKCE with S256`);
+  }
+
+  let clientId = options.clientId?.trim();
+  let clientSecret: string | undefined;
+  if (!clientId) {
+    ({ clientId, clientSecret } = await registerClient(metadata, redirectUri, fetcher));
+    onStatus?.(`Registered client ${clientId} with ${metadata.issuer}`);
+  }
+
+  const scope = challenge?.params.scope ?? resourceMetadata?.scopes_supported?.join(' ');
+  const pkce = await createPkce();
+  const state = randomToken(16);
+  const authorizationUrl = new URL(metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', clientId);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('code_challenge', pkce.challenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('resource', resource);
+  if (scope) authorizationUrl.searchParams.set('scope', scope);
+
+  onStatus?.(`Waiting for authorization at ${metadata.authorization_endpoint}`);
+  const callback = await options.openAuthorization(authorizationUrl.toString());
+  if (callback.searchParams.get('state') !== state) {
+    throw new Error('Authorization response state does not match the request');
+  }
+  const error = callback.searchParams.get('error');
+  if (error) {
+    const description = callback.searchParams.get('error_description');
+    throw new Error(`Authorization denied: ${description ? `${error}: ${description}` : error}`);
+  }
+  const code = callback.searchParams.get('code');
+  if (!code) {
+    throw new Error('Authorization response has no code');
+  }
+
+  const tokens = await requestToken(metadata.token_endpoint, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: clientId,
+    code_verifier: pkce.verifier,
+    resource
+  }, clientSecret, fetcher);
+
+  return storeTokens({
+    resource,
+    issuer: metadata.issuer,
+    tokenEndpoint: metadata.token_endpoint,
+    clientId,
+    clientSecret
+  }, tokens);
+}
+
+/**
+ * Opens the authorization URL in a popup and resolves with the URL the
+ * callback page reports. The callback page answers through postMessage, or
+ * through localStorage when the authorization server cut the opener link.
+ */
+export function openAuthorizationPopup(authorizationUrl: string): Promise<URL> {
+  const popup = window.open(authorizationUrl, 'mcp-online-oauth', 'width=600,height=720');
+  if (!popup) {
+    return Promise.reject(new Error('The authorization popup was blocked; allow popups or use Authorize'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const finish = (href: string) => {
+      cleanup();
+      resolve(new URL(href));
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin === window.location.origin && event.data?.type === OAUTH_CALLBACK_MESSAGE) {
+        finish(event.data.url);
+      }
+    };
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === OAUTH_CALLBACK_STORAGE_KEY && event.newValue) {
+        localStorage.removeItem(OAUTH_CALLBACK_STORAGE_KEY);
+        finish(event.newValue);
+      }
+    };
+    const closedTimer = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new Error('The authorization window was closed'));
+      }
+    }, 500);
+    const cleanup = () => {
+      clearInterval(closedTimer);
+      window.removeEventListener('message', onMessage);
+      window.removeEventListener('storage', onStorage);
+    };
+    window.addEventListener('message', onMessage);
+    window.addEventListener('storage', onStorage);
+  });
+}
+
+export function isExpired(authorization: StoredAuthorization): boolean {
+  return authorization.expiresAt !== undefined && authorization.expiresAt - EXPIRY_SKEW_MS <= Date.now();
+}
+
+function parseAll(text: string | null): Record<string, StoredAuthorization> {
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch (error) {
+    console.warn('Failed to load authorizations from localStorage:', error);
+    return {};
+  }
+}
+
+function loadAll(): Record<string, StoredAuthorization> {
+  return parseAll(readAuthorizations());
+}
+
+const listeners = new Set<() => void>();
+
+/** For useSyncExternalStore: calls `listener` whenever a token is saved or forgotten. */
+export function subscribeAuthorizations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** The stored tokens as text, so unchanged storage compares equal between renders. */
+export function readAuthorizations(): string | null {
+  try {
+    return localStorage.getItem(OAUTH_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveAll(all: Record<string, StoredAuthorization>) {
+  try {
+    localStorage.setItem(OAUTH_STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.warn('Failed to save authorizations to localStorage:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/** Looks up the token for `serverUrl` in text returned by `readAuthorizations`. */
+export function findAuthorization(text: string | null, serverUrl: string): StoredAuthorization | null {
+  try {
+    return parseAll(text)[canonicalResource(serverUrl)] ?? null;
+  } catch {
+    // Not a valid URL yet, e.g. while it is being typed
+    return null;
+  }
+}
+
+export function loadAuthorization(serverUrl: string): StoredAuthorization | null {
+  return findAuthorization(readAuthorizations(), serverUrl);
+}
+
+export function saveAuthorization(authorization: StoredAuthorization) {
+  saveAll({ ...loadAll(), [authorization.resource]: authorization });
+}
+
+export function forgetAuthorization(serverUrl: string) {
+  const all = loadAll();
+  delete all[canonicalResource(serverUrl)];
+  saveAll(all);
+}
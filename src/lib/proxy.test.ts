@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { ProxyPolicy, canonicalHostname, checkProxyTarget, isDeniedAddress } from "@/lib/proxy";
+
+const policy: ProxyPolicy = { allow: [], deny: ["169.254.169.254", "metadata.google.internal"], allowAllByDefault: true };
+
+describe("canonicalHostname", () => {
+  it("normalizes IPv4 spellings and IPv4-mapped IPv6 to a dotted quad", () => {
+    for (const host of ["2852039166", "0xa9.0xfe.0xa9.0xfe", "[::ffff:a9fe:a9fe]", "::ffff:169.254.169.254", "169.254.169.254"]) {
+      expect(canonicalHostname(host)).toBe("169.254.169.254");
+    }
+  });
+
+  it("leaves names and other IPv6 addresses alone", () => {
+    expect(canonicalHostname("MCP.Example.com")).toBe("mcp.example.com");
+    expect(canonicalHostname("::1")).toBe("::1");
+  });
+});
+
+describe("checkProxyTarget", () => {
+  it("denies alternative spellings of a denied address", () => {
+    for (const target of ["http://2852039166/", "http://0xa9.0xfe.0xa9.0xfe/latest", "http://[::ffff:a9fe:a9fe]/"]) {
+      expect(checkProxyTarget(target, policy)).toMatch(/denylist/);
+    }
+  });
+
+  it("allows other hosts when no allowlist is set", () => {
+    expect(checkProxyTarget("https://mcp.example.com/mcp", policy)).toBeNull();
+  });
+
+  it("requires allowlisted hosts when an allowlist is set", () => {
+    const strict = { ...policy, allow: ["*.example.com"], allowAllByDefault: false };
+    expect(checkProxyTarget("https://mcp.example.com/mcp", strict)).toBeNull();
+    expect(checkProxyTarget("https://example.org/mcp", strict)).toMatch(/MCP_PROXY_ALLOW/);
+  });
+});
+
+describe("isDeniedAddress", () => {
+  it("matches resolved addresses against the denylist", () => {
+    expect(isDeniedAddress("::ffff:169.254.169.254", policy)).toBe(true);
+    expect(isDeniedAddress("93.184.216.34", policy)).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+// Shared pieces of the /api/proxy route: how the browser encodes a request for
+// the proxy, and which targets a deployment is willing to relay to.
+
+export const PROXY_PATH = "/api/proxy";
+
+/** Browsers refuse to send these headers, so they travel under this prefix instead. */
+export const PROXY_HEADER_PREFIX = "X-Mcp-Proxy-Header-";
+
+/** Set on responses the proxy produced itself rather than relayed from upstream. */
+export const PROXY_ERROR_HEADER = "X-Mcp-Proxy-Error";
+
+const FORBIDDEN_HEADERS = [
+  "accept-charset",
+  "accept-encoding",
+  "access-control-request-headers",
+  "access-control-request-method",
+  "connection",
+  "content-length",
+  "cookie",
+  "cookie2",
+  "date",
+  "dnt",
+  "expect",
+  "host",
+  "keep-alive",
+  "origin",
+  "referer",
+  "set-cookie",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "user-agent",
+  "via"
+];
+
+export function isForbiddenHeader(name: string): boolean {
+  const lower = name.toLowerCase();
+  return FORBIDDEN_HEADERS.includes(lower) || lower.startsWith("proxy-") || lower.startsWith("sec-");
+}
+
+export function proxyUrl(target: string): string {
+  return `${PROXY_PATH}?url=${encodeURIComponent(target)}`;
+}
+
+/** Renames headers the browser would drop so the proxy can restore them. */
+export function encodeProxyHeaders(headers: Record<string, string>): Record<string, string> {
+  const encoded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    encoded[isForbiddenHeader(name) ? PROXY_HEADER_PREFIX + name : name] = value;
+  }
+  return encoded;
+}
+
+export interface ProxyPolicy {
+  allow: string[];
+  deny: string[];
+  /** Without an allowlist, relay anywhere not denied. Only sensible for local development. */
+  allowAllByDefault: boolean;
+}
+
+export function parseHostList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Spells a hostname or IP address one way, so a denied address can't slip
+ * through as "2852039166", "0xa9.0xfe.0xa9.0xfe" or "[::ffff:a9fe:a9fe]".
+ */
+export function canonicalHostname(hostname: string): string {
+  let host = hostname.toLowerCase();
+  try {
+    // URL parsing turns IPv4 written in decimal, hex or octal into a dotted quad
+    host = new URL(`http://${host}`).hostname;
+  } catch {
+    // A bare IPv6 address such as a DNS lookup returns
+  }
+  host = host.replace(/^\[(.*)\]$/, "$1");
+
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(host);
+  if (!mapped) return host;
+  if (mapped[1]) return mapped[1];
+  const high = parseInt(mapped[2], 16);
+  const low = parseInt(mapped[3], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function hostPattern(pattern: string): { host: string; port?: string } {
+  const [host, port] = pattern.split(/:(?=\d+$)/);
+  return { host: host.startsWith("*.") ? host : canonicalHostname(host), port };
+}
+
+/**
+ * Matches "host", "host:port" or "*.domain" entries against a URL. A bare host
+ * matches any port; "*.example.com" matches subdomains but not example.com itself.
+ */
+export function matchesHost(target: URL, pattern: string): boolean {
+  const hostname = canonicalHostname(target.hostname);
+  const { host, port } = hostPattern(pattern);
+  if (port && port !== (target.port || (target.protocol === "https:" ? "443" : "80"))) {
+    return false;
+  }
+  if (host.startsWith("*.")) {
+    return hostname.endsWith(host.substring(1));
+  }
+  return hostname === host;
+}
+
+/** Whether an address a hostname resolved to is on the denylist; ports and wildcards don't apply. */
+export function isDeniedAddress(address: string, policy: ProxyPolicy): boolean {
+  const canonical = canonicalHostname(address);
+  return policy.deny.some(pattern => hostPattern(pattern).host === canonical);
+}
+
+/** Returns why a target may not be relayed, or null when it is allowed. */
+export function checkProxyTarget(target: string, policy: ProxyPolicy): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(target);
+  } catch {
+    return "Target is not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return `Protocol ${parsed.protocol} is not allowed`;
+  }
+  if (policy.deny.some(pattern => matchesHost(parsed, pattern))) {
+    return `Host ${parsed.host} is on the proxy denylist`;
+  }
+  if (policy.allow.length > 0) {
+    return policy.allow.some(pattern => matchesHost(parsed, pattern))
+      ? null
+      : `Host ${parsed.host} is not in MCP_PROXY_ALLOW`;
+  }
+  return policy.allowAllByDefault ? null : "Proxy is disabled: set MCP_PROXY_ALLOW to the hosts it may reach";
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { parseCurl } from "@/lib/requestCode";
+
+describe("parseCurl", () => {
+  it("reads single, double and $'...' quoting and line continuations", () => {
+    const request = parseCurl(`curl 'https://mcp.example.com/mcp?a=1&b=2' \\
+      -H "Authorization: Bearer \\"token\\"" \\
+      -H $'X-Note: tab\\there' \\
+      --data-raw '{"jsonrpc":"2.0","method":"ping"}'`);
+    expect(request).toEqual({
+      url: "https://mcp.example.com/mcp?a=1&b=2",
+      method: "POST",
+      headers: [
+        { key: "Authorization", value: 'Bearer "token"' },
+        { key: "X-Note", value: "tab\there" }
+      ],
+      body: '{"jsonrpc":"2.0","method":"ping"}'
+    });
+  });
+
+  it("accepts values attached to short options", () => {
+    const request = parseCurl("curl -XPOST -H'Accept: text/event-stream' -d'{}' -sSN https://mcp.example.com/mcp");
+    expect(request.method).toBe("POST");
+    expect(request.headers).toEqual([{ key: "Accept", value: "text/event-stream" }]);
+    expect(request.body).toBe("{}");
+  });
+
+  it("splits long options on the first =", () => {
+    const request = parseCurl(
+      "curl --request=POST --header='Content-Type: application/json' --data='{\"a\":\"b=c\"}' --max-time=5 --url=https://mcp.example.com/mcp"
+    );
+    expect(request).toEqual({
+      url: "https://mcp.example.com/mcp",
+      method: "POST",
+      headers: [{ key: "Content-Type", value: "application/json" }],
+      body: '{"a":"b=c"}'
+    });
+  });
+
+  it("turns -u into a Basic header, UTF-8 encoding the credentials", () => {
+    expect(parseCurl("curl -u alice:secret https://a.test").headers).toEqual([
+      { key: "Authorization", value: `Basic ${Buffer.from("alice:secret").toString("base64")}` }
+    ]);
+    expect(parseCurl("curl --user=üser:pässwörd https://a.test").headers[0].value).toBe(
+      `Basic ${Buffer.from("üser:pässwörd", "utf8").toString("base64")}`
+    );
+    expect(parseCurl("curl -u'用户:密码' https://a.test").headers[0].value).toBe(
+      `Basic ${Buffer.from("用户:密码", "utf8").toString("base64")}`
+    );
+  });
+
+  it("moves data into the query string with -G", () => {
+    expect(parseCurl("curl -G -d a=1 -d b=2 https://a.test/search?q=x")).toEqual({
+      url: "https://a.test/search?q=x&a=1&b=2",
+      method: "GET",
+      headers: [],
+      body: null
+    });
+  });
+
+  it("rejects methods the editor cannot send", () => {
+    expect(() => parseCurl("curl -X PUT https://a.test")).toThrow("PUT requests are not supported");
+    expect(() => parseCurl("curl --request=delete https://a.test")).toThrow("DELETE requests are not supported");
+    expect(() => parseCurl("curl -I https://a.test")).toThrow(/HEAD requests/);
+  });
+
+  it("rejects what it cannot reproduce", () => {
+    expect(() => parseCurl("wget https://a.test")).toThrow('Command must start with "curl"');
+    expect(() => parseCurl("curl -H")).toThrow("-H needs a value");
+    expect(() => parseCurl("curl -d @body.json https://a.test")).toThrow(/@file/);
+    expect(() => parseCurl("curl -Z https://a.test")).toThrow("Unsupported option -Z");
+    expect(() => parseCurl("curl -s")).toThrow("No URL found in the command");
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Code that reproduces the configured request outside the browser, and the
+ * reverse: reading a pasted curl command back into the request editor.
+ */
+
+import { SavedHeader } from "@/lib/collections";
+
+export interface CodeRequest {
+  url: string;
+  method: string;
+  transport: string;
+  headers: SavedHeader[];
+  /** null when the request has no body. */
+  body: string | null;
+}
+
+export type CodeTarget = 'curl' | 'fetch' | 'python' | 'mcp-sdk';
+
+export const CODE_TARGETS: { id: CodeTarget; label: string }[] = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'fetch', label: 'JavaScript fetch' },
+  { id: 'python', label: 'Python httpx' },
+  { id: 'mcp-sdk', label: 'MCP TypeScript SDK' }
+];
+
+function parseBody(body: string | null): unknown {
+  if (body === null) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function shellQuote(text: string): string {
+  return /^[\w@%+=:,./-]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').join(`\n${indent}`);
+}
+
+function generateCurl({ url, method, headers, body }: CodeRequest): string {
+  const lines = [`curl -N${method === 'GET' ? '' : ` -X ${method}`} ${shellQuote(url)}`];
+  headers.forEach(header => lines.push(`-H ${shellQuote(`${header.key}: ${header.value}`)}`));
+  if (body !== null) lines.push(`--data-raw ${shellQuote(body)}`);
+  return lines.join(' \\\n  ');
+}
+
+function jsObject(entries: [string, string][], indent: string): string {
+  if (entries.length === 0) return '{}';
+  const body = entries.map(([key, value]) => `${indent}  ${JSON.stringify(key)}: ${JSON.stringify(value)}`).join(',\n');
+  return `{\n${body}\n${indent}}`;
+}
+
+function generateFetch({ url, method, headers, body }: CodeRequest): string {
+  const json = parseBody(body);
+  const options = [
+    `  method: ${JSON.stringify(method)}`,
+    `  headers: ${jsObject(headers.map(h => [h.key, h.value]), '  ')}`
+  ];
+  if (body !== null) {
+    options.push(json !== undefined
+      ? `  body: JSON.stringify(${indentLines(JSON.stringify(json, null, 2), '  ')})`
+      : `  body: ${JSON.stringify(body)}`);
+  }
+  return [
+    `const response = await fetch(${JSON.stringify(url)}, {`,
+    options.join(',\n'),
+    '});',
+    '',
+    'console.log(response.status, response.headers.get("content-type"));',
+    '',
+    '// Print the body as it arrives; SSE streams stay open until the server closes them',
+    'const reader = response.body.getReader();',
+    'const decoder = new TextDecoder();',
+    'for (;;) {',
+    '  const { done, value } = await reader.read();',
+    '  if (done) break;',
+    '  console.log(decoder.decode(value, { stream: true }));',
+    '}'
+  ].join('\n');
+}
+
+// JSON values written as Python literals: null, true and false differ
+function pythonLiteral(value: unknown, indent = ''): string {
+  if (value === null) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${pythonLiteral(item, inner)}`).join(',\n')},\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)}`).join(',\n')},\n${indent}}`;
+}
+
+function generatePython({ url, method, headers, body }: CodeRequest): string {
+  const json = parseBody(body);
+  const lines = [
+    'import httpx',
+    '',
+    `url = ${JSON.stringify(url)}`,
+    `headers = ${pythonLiteral(Object.fromEntries(headers.map(h => [h.key, h.value])))}`
+  ];
+  let bodyArgument = '';
+  if (body !== null) {
+    lines.push(json !== undefined ? `payload = ${pythonLiteral(json)}` : `payload = ${JSON.stringify(body)}`);
+    bodyArgument = json !== undefined ? ', json=payload' : ', content=payload';
+  }
+  lines.push(
+    '',
+    '# timeout=None keeps long-lived SSE streams open',
+    `with httpx.stream(${JSON.stringify(method)}, url, headers=headers${bodyArgument}, timeout=None) as response:`,
+    '    print(response.status_code, response.headers.get("content-type"))',
+    '    for line in response.iter_lines():',
+    '        print(line)'
+  );
+  return lines.join('\n');
+}
+
+// Client methods of the SDK for the common requests; anything else goes through client.request
+const SDK_METHODS: Record<string, string> = {
+  'ping': 'ping',
+  'tools/list': 'listTools',
+  'tools/call': 'callTool',
+  'resources/list': 'listResources',
+  'resources/templates/list': 'listResourceTemplates',
+  'resources/read': 'readResource',
+  'prompts/list': 'listPrompts',
+  'prompts/get': 'getPrompt',
+  'completion/complete': 'complete'
+};
+
+// The SDK negotiates these itself
+const SDK_MANAGED_HEADERS = ['content-type', 'accept', 'mcp-session-id', 'mcp-protocol-version', 'content-length'];
+
+function generateSdk({ url, transport, headers, body }: CodeRequest): string {
+  const sse = transport === 'sse';
+  const transportClass = sse ? 'SSEClientTransport' : 'StreamableHTTPClientTransport';
+  const extraHeaders = headers.filter(h => !SDK_MANAGED_HEADERS.includes(h.key.toLowerCase()));
+  const message = parseBody(body) as { method?: unknown; params?: unknown } | undefined;
+  const requestMethod = typeof message?.method === 'string' ? message.method : null;
+  const params = typeof message?.params === 'object' && message.params !== null ? message.params : {};
+  const sdkMethod = requestMethod ? SDK_METHODS[requestMethod] : undefined;
+
+  const lines = [
+    'import { Client } from "@modelcontextprotocol/sdk/client/index.js";',
+    sse
+      ? 'import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";'
+      : 'import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";'
+  ];
+  if (requestMethod && !sdkMethod && requestMethod !== 'initialize') {
+    lines.push('import { ResultSchema } from "@modelcontextprotocol/sdk/types.js";');
+  }
+  lines.push('', `const transport = new ${transportClass}(new URL(${JSON.stringify(url)})${extraHeaders.length > 0
+    ? `, {\n  requestInit: { headers: ${jsObject(extraHeaders.map(h => [h.key, h.value]), '  ')} }\n}`
+    : ''});`);
+  lines.push(
+    'const client = new Client({ name: "mcp-online", version: "1.0.0" });',
+    '',
+    '// connect() runs the initialize handshake',
+    'await client.connect(transport);'
+  );
+
+  const paramsCode = JSON.stringify(params, null, 2);
+  if (sdkMethod) {
+    const args = requestMethod === 'ping' || Object.keys(params).length === 0 ? '' : paramsCode;
+    lines.push(`console.log(await client.${sdkMethod}(${args}));`);
+  } else if (requestMethod && requestMethod !== 'initialize') {
+    lines.push(`console.log(await client.request({ method: ${JSON.stringify(requestMethod)}, params: ${paramsCode} }, ResultSchema));`);
+  } else if (!requestMethod) {
+    lines.push('// The request body is not a single JSON-RPC request, so nothing is sent after connecting');
+  }
+  lines.push('', 'await client.close();');
+  return lines.join('\n');
+}
+
+export function generateCode(target: CodeTarget, request: CodeRequest): string {
+  switch (target) {
+    case 'curl': return generateCurl(request);
+    case 'fetch': return generateFetch(request);
+    case 'python': return generatePython(request);
+    case 'mcp-sdk': return generateSdk(request);
+  }
+}
+
+// Splits a command line the way a POSIX shell would: quotes, backslash escapes, $'...' and line continuations
+function tokenize(command: string): string[] {
+  const tokens: string[] = [];
+  let current: string | null = null;
+  let i = 0;
+  const append = (text: string) => { current = (current ?? '') + text; };
+
+  while (i < command.length) {
+    const char = command[i];
+    if (char === '\\' && (command[i + 1] === '\n' || command.startsWith('\r\n', i + 1))) {
+      i += command[i + 1] === '\n' ? 2 : 3;
+    } else if (/\s/.test(char)) {
+      if (current !== null) tokens.push(current);
+      current = null;
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      append(command.slice(i + 1, end));
+      i = end + 1;
+    } else if (char === '$' && command[i + 1] === "'") {
+      i += 2;
+      let text = '';
+      while (i < command.length && command[i] !== "'") {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          const escape = command[i + 1];
+          const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+          if (escape in simple) {
+            text += simple[escape];
+            i += 2;
+          } else if (escape === 'x' || escape === 'u') {
+            const match = (escape === 'x' ? /^[0-9a-fA-F]{1,2}/ : /^[0-9a-fA-F]{1,4}/).exec(command.slice(i + 2));
+            text += match ? String.fromCharCode(parseInt(match[0], 16)) : escape;
+            i += 2 + (match?.[0].length ?? 0);
+          } else {
+            text += `\\${escape}`;
+            i += 2;
+          }
+        } else {
+          text += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('Unterminated $\'...\' string');
+      append(text);
+      i++;
+    } else if (char === '"') {
+      i++;
+      let text = '';
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === '\\' && '"\\$`\n'.includes(command[i + 1])) {
+          if (command[i + 1] !== '\n') text += command[i + 1];
+          i += 2;
+        } else {
+          text += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('Unterminated double quote');
+      append(text);
+      i++;
+    } else if (char === '\\' && i + 1 < command.length) {
+      append(command[i + 1]);
+      i += 2;
+    } else {
+      append(char);
+      i++;
+    }
+  }
+  if (current !== null) tokens.push(current);
+  return tokens;
+}
+
+const DATA_OPTIONS = ['-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--json'];
+// Options whose argument is skipped because it does not affect the request itself
+const IGNORED_WITH_ARGUMENT = [
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-w', '--write-out', '--retry',
+  '-x', '--proxy', '--cacert', '--cert', '--key', '-c', '--cookie-jar', '--resolve', '-r', '--range'
+];
+// Short flags without arguments that may be grouped, as in -sSN
+const BOOLEAN_SHORT_FLAGS = 'sSNvikLfgq';
+// Methods the request editor can send
+const SUPPORTED_METHODS = ['GET', 'POST'];
+
+// btoa only takes Latin-1, so credentials are UTF-8 encoded first as curl sends them
+function basicCredentials(userPassword: string): string {
+  let binary = '';
+  new TextEncoder().encode(userPassword).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+/**
+ * Reads a curl command, such as one copied from browser dev tools, into a
+ * request. Throws on constructs the editor can't hold, like bodies read from files.
+ */
+export function parseCurl(command: string): Omit<CodeRequest, 'transport'> {
+  const tokens = tokenize(command.trim());
+  if (tokens[0] !== 'curl') throw new Error('Command must start with "curl"');
+
+  let url: string | null = null;
+  let method: string | null = null;
+  let useGet = false;
+  const headers: SavedHeader[] = [];
+  const data: string[] = [];
+  let json = false;
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = () => {
+      if (i + 1 >= tokens.length) throw new Error(`${token} needs a value`);
+      return tokens[++i];
+    };
+    // Short options may carry their value attached: -XPOST, -H'Accept: */*'; long ones after "=": --data={}
+    const equals = token.startsWith('--') ? token.indexOf('=') : -1;
+    const attached = equals !== -1
+      ? token.slice(equals + 1)
+      : /^-[XHdAebu]./.test(token) ? token.slice(2) : null;
+    const option = equals !== -1 ? token.slice(0, equals) : attached !== null ? token.slice(0, 2) : token;
+    const value = () => attached ?? next();
+
+    if (option === '-X' || option === '--request') {
+      method = value().toUpperCase();
+    } else if (option === '-H' || option === '--header') {
+      const header = value();
+      const colon = header.indexOf(':');
+      if (colon <= 0) throw new Error(`Header "${header}" has no name`);
+      headers.push({ key: header.slice(0, colon).trim(), value: header.slice(colon + 1).trim() });
+    } else if (DATA_OPTIONS.includes(option)) {
+      const body = value();
+      if (body.startsWith('@') && option !== '--data-raw') throw new Error('Bodies read from files (@file) are not supported');
+      data.push(body);
+      if (option === '--json') json = true;
+    } else if (option === '--url') {
+      url = value();
+    } else if (option === '-A' || option === '--user-agent') {
+      headers.push({ key: 'User-Agent', value: value() });
+    } else if (option === '-e' || option === '--referer') {
+      headers.push({ key: 'Referer', value: value() });
+    } else if (option === '-b' || option === '--cookie') {
+      headers.push({ key: 'Cookie', value: value() });
+    } else if (option === '-u' || option === '--user') {
+      headers.push({ key: 'Authorization', value: `Basic ${basicCredentials(value())}` });
+    } else if (option === '-I' || option === '--head') {
+      throw new Error('HEAD requests (-I) are not supported; use GET or POST');
+    } else if (option === '-G' || option === '--get') {
+      useGet = true;
+    } else if (option === '-F' || option === '--form') {
+      throw new Error('Multipart form uploads (-F) are not supported');
+    } else if (IGNORED_WITH_ARGUMENT.includes(option)) {
+      value();
+    } else if (token.startsWith('-')) {
+      if (/^-[^-]/.test(token) && ![...token.slice(1)].every(flag => BOOLEAN_SHORT_FLAGS.includes(flag))) {
+        throw new Error(`Unsupported option ${token}`);
+      }
+      // Other long options (--compressed, --no-buffer, ...) take no argument and are ignored
+    } else if (url === null) {
+      url = token;
+    } else {
+      throw new Error(`Unexpected argument "${token}"`);
+    }
+  }
+
+  if (!url) throw new Error('No URL found in the command');
+  if (method !== null && !SUPPORTED_METHODS.includes(method)) {
+    throw new Error(`${method} requests are not supported; use GET or POST`);
+  }
+  const hasHeader = (name: string) => headers.some(header => header.key.toLowerCase() === name.toLowerCase());
+  if (json) {
+    if (!hasHeader('Content-Type')) headers.push({ key: 'Content-Type', value: 'application/json' });
+    if (!hasHeader('Accept')) headers.push({ key: 'Accept', value: 'application/json' });
+  }
+
+  const body = data.length > 0 ? data.join('&') : null;
+  if (useGet && body !== null) {
+    return { url: `${url}${url.includes('?') ? '&' : '?'}${body}`, method: 'GET', headers, body: null };
+  }
+  return { url, method: method ?? (body !== null ? 'POST' : 'GET'), headers, body };
+}
@@ -0,0 +1,90 @@
+// Requests a server sends to the client: sampling, elicitation and roots.
+// The tester answers them by hand, so only the wire shapes live here.
+
+import { JsonSchema } from "@/lib/jsonSchema";
+import { ContentBlock, JsonRpcError, JsonRpcId, JsonRpcResponse, isObject } from "@/lib/mcp";
+
+export type ClientFeature = 'sampling' | 'elicitation' | 'roots';
+
+export const CLIENT_FEATURES: { feature: ClientFeature; method: string; label: string }[] = [
+  { feature: 'sampling', method: 'sampling/createMessage', label: 'Sampling' },
+  { feature: 'elicitation', method: 'elicitation/create', label: 'Elicitation' },
+  { feature: 'roots', method: 'roots/list', label: 'Roots' }
+];
+
+/** JSON-RPC error code for a request the user turned down. */
+export const USER_REJECTED = -1;
+
+export interface Root {
+  uri: string;
+  name?: string;
+}
+
+export interface SamplingMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock;
+}
+
+export interface SamplingParams {
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: { name?: string }[];
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+export interface ElicitationParams {
+  message: string;
+  requestedSchema: JsonSchema;
+}
+
+export type ElicitationAction = 'accept' | 'decline' | 'cancel';
+
+/** A response body without the envelope: either a result or an error. */
+export type ServerRequestReply = { result: Record<string, unknown> } | { error: JsonRpcError };
+
+export function featureForMethod(method: string): ClientFeature | undefined {
+  return CLIENT_FEATURES.find(entry => entry.method === method)?.feature;
+}
+
+/** The capabilities sent in initialize for the features the tester answers. */
+export function buildClientCapabilities(features: ClientFeature[]): Record<string, unknown> {
+  const capabilities: Record<string, unknown> = {};
+  if (features.includes('roots')) capabilities.roots = { listChanged: true };
+  if (features.includes('sampling')) capabilities.sampling = {};
+  if (features.includes('elicitation')) capabilities.elicitation = {};
+  return capabilities;
+}
+
+export function buildReply(id: JsonRpcId, reply: ServerRequestReply): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, ...reply };
+}
+
+export function samplingParams(params: Record<string, unknown> | undefined): SamplingParams {
+  return {
+    ...params,
+    messages: Array.isArray(params?.messages) ? params.messages as SamplingMessage[] : []
+  };
+}
+
+export function elicitationParams(params: Record<string, unknown> | undefined): ElicitationParams {
+  return {
+    message: typeof params?.message === 'string' ? params.message : '',
+    requestedSchema: isObject(params?.requestedSchema) ? params.requestedSchema as JsonSchema : { type: 'object' }
+  };
+}
+
+/** Roots must be file:// URIs; returns why a URI is not acceptable, if it is not. */
+export function rootUriError(uri: string): string | null {
+  try {
+    return new URL(uri).protocol === 'file:' ? null : 'Roots must be file:// URIs';
+  } catch {
+    return 'Not a valid URI';
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { ImportedSession, exportSession, importSession, mergeSessions, replayDelays } from "@/lib/sessionFile";
+import { StreamEvent } from "@/lib/streamEvents";
+
+const request = { url: "https://mcp.example.com/mcp", method: "POST", transport: "streamable-http", headers: [], body: "{}" };
+
+function event(id: string, timestamp: string, extra: Partial<StreamEvent> = {}): StreamEvent {
+  return { id, time: "", timestamp, raw: `{"id":"${id}"}`, type: "data", ...extra };
+}
+
+// A request and its response linked to each other, as the live view records them
+function capture(start: string, end: string): string {
+  return exportSession(request, [
+    event("req", start, { type: "request", rpc: { kind: "request", method: "ping", id: 1, linkedEventId: "res" } }),
+    event("res", end, { rpc: { kind: "response", id: 1, linkedEventId: "req" } })
+  ]);
+}
+
+describe("importSession", () => {
+  it("gives events new ids and rewrites links to match", () => {
+    const session = importSession(capture("2025-01-01T00:00:00.000Z", "2025-01-01T00:00:00.250Z"), "a.json");
+    const [sent, received] = session.events;
+    expect(sent.id).not.toBe("req");
+    expect(received.id).not.toBe("res");
+    expect(sent.rpc?.linkedEventId).toBe(received.id);
+    expect(received.rpc?.linkedEventId).toBe(sent.id);
+  });
+
+  it("drops links to events that are not in the file", () => {
+    const text = exportSession(request, [event("res", "2025-01-01T00:00:00.000Z", { rpc: { kind: "response", linkedEventId: "gone" } })]);
+    expect(importSession(text, "a.json").events[0].rpc?.linkedEventId).toBeUndefined();
+  });
+
+  it("falls back to the export time for events without a timestamp", () => {
+    const text = JSON.stringify({ timestamp: "2025-01-01T00:00:05.000Z", events: [{ raw: "hi" }, { raw: "there", timestamp: "bad" }] });
+    const session = importSession(text, "old.json");
+    expect(session.events.map(e => e.timestamp)).toEqual(["2025-01-01T00:00:05.000Z", "2025-01-01T00:00:05.000Z"]);
+    expect(session.request).toEqual({ url: "", method: "POST", transport: "streamable-http", headers: [], body: null });
+  });
+
+  it("rejects files that are not exported sessions", () => {
+    expect(() => importSession("{", "broken.json")).toThrow("broken.json: not valid JSON");
+    expect(() => importSession("{}", "other.json")).toThrow(/no "events" array/);
+  });
+});
+
+describe("mergeSessions", () => {
+  it("orders sessions by their first event and keeps ids unique", () => {
+    const later = importSession(capture("2025-01-01T00:01:00.000Z", "2025-01-01T00:01:00.100Z"), "later.json");
+    const earlier = importSession(capture("2025-01-01T00:00:00.000Z", "2025-01-01T00:00:00.100Z"), "earlier.json");
+    const merged: ImportedSession = mergeSessions([later, earlier]);
+
+    expect(merged.sources).toEqual(["earlier.json", "later.json"]);
+    expect(merged.events.map(e => e.timestamp)).toEqual([
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-01T00:00:00.100Z",
+      "2025-01-01T00:01:00.000Z",
+      "2025-01-01T00:01:00.100Z"
+    ]);
+    expect(new Set(merged.events.map(e => e.id)).size).toBe(4);
+    // Links stay within each capture even though both used the same original ids
+    expect(merged.events[0].rpc?.linkedEventId).toBe(merged.events[1].id);
+    expect(merged.events[2].rpc?.linkedEventId).toBe(merged.events[3].id);
+  });
+});
+
+describe("replayDelays", () => {
+  const events = [
+    event("a", "2025-01-01T00:00:00.000Z"),
+    event("b", "2025-01-01T00:00:00.400Z"),
+    event("c", "not a time"),
+    event("d", "2025-01-01T00:00:10.400Z"),
+    event("e", "2025-01-01T00:00:10.000Z")
+  ];
+
+  it("waits the original gaps divided by the speed", () => {
+    expect(replayDelays(events, 1)).toEqual([0, 400, 0, 10000, 0]);
+    expect(replayDelays(events, 2)).toEqual([0, 200, 0, 5000, 0]);
+  });
+
+  it("caps long gaps before applying the speed", () => {
+    expect(replayDelays(events, 2, 1000)).toEqual([0, 200, 0, 500, 0]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Exported stream sessions: the request that was sent and the events it
+ * produced, written by Export and read back for offline inspection and replay.
+ */
+
+import { SavedHeader, createId } from "@/lib/collections";
+import { RpcInfo, StreamEvent } from "@/lib/streamEvents";
+
+export const SESSION_FILE_VERSION = 1;
+
+export interface SessionRequest {
+  url: string;
+  method: string;
+  transport: string;
+  headers: SavedHeader[];
+  /** null for GET requests. */
+  body: string | null;
+}
+
+export interface ExportedEvent extends StreamEvent {
+  /** Values picked out by the JSONPath filter active at export time. */
+  extracted?: unknown[];
+}
+
+interface SessionFile extends SessionRequest {
+  version: number;
+  timestamp: string;
+  filter?: unknown;
+  events: ExportedEvent[];
+}
+
+export interface ImportedSession {
+  /** File names the session was read from. */
+  sources: string[];
+  exportedAt: string;
+  request: SessionRequest;
+  events: StreamEvent[];
+}
+
+const EVENT_TYPES: StreamEvent['type'][] = ['connection', 'data', 'error', 'info', 'request'];
+
+export function exportSession(request: SessionRequest, events: ExportedEvent[], filter?: unknown): string {
+  const file: SessionFile = {
+    version: SESSION_FILE_VERSION,
+    timestamp: new Date().toISOString(),
+    ...request,
+    filter,
+    events
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+function asString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function isValidTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function parseRaw(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads an exported session file. Files written before events carried an ISO
+ * timestamp get the export time for every event, so they replay all at once.
+ * Event ids are replaced (links between events are rewritten to match) so
+ * several files can be loaded together.
+ */
+export function importSession(text: string, source: string): ImportedSession {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error(`${source}: not valid JSON`);
+  }
+  if (typeof file !== 'object' || file === null || !Array.isArray((file as SessionFile).events)) {
+    throw new Error(`${source}: no "events" array; is this an exported session?`);
+  }
+  const entry = file as Record<string, unknown>;
+  const exportedAt = isValidTimestamp(entry.timestamp) ? entry.timestamp : new Date(0).toISOString();
+
+  const events = (entry.events as unknown[])
+    .filter((event): event is Record<string, unknown> => typeof event === 'object' && event !== null && typeof (event as Record<string, unknown>).raw === 'string');
+  const ids = new Map<string, string>();
+  events.forEach(event => {
+    if (typeof event.id === 'string') ids.set(event.id, createId());
+  });
+
+  return {
+    sources: [source],
+    exportedAt,
+    request: {
+      url: asString(entry.url, ''),
+      method: asString(entry.method, 'POST'),
+      transport: asString(entry.transport, 'streamable-http'),
+      headers: (Array.isArray(entry.headers) ? entry.headers : [])
+        .filter((header): header is SavedHeader => typeof header?.key === 'string' && typeof header?.value === 'string')
+        .map(header => ({ key: header.key, value: header.value })),
+      body: typeof entry.body === 'string' ? entry.body : null
+    },
+    events: events.map(event => {
+      const timestamp = isValidTimestamp(event.timestamp) ? event.timestamp : exportedAt;
+      const rpc = typeof event.rpc === 'object' && event.rpc !== null ? { ...event.rpc as RpcInfo } : undefined;
+      if (rpc?.linkedEventId) rpc.linkedEventId = ids.get(rpc.linkedEventId);
+      const raw = event.raw as string;
+      return {
+        id: (typeof event.id === 'string' && ids.get(event.id)) || createId(),
+        time: asString(event.time, new Date(timestamp).toLocaleTimeString()),
+        timestamp,
+        raw,
+        formatted: event.formatted !== undefined ? event.formatted : parseRaw(raw),
+        type: EVENT_TYPES.includes(event.type as StreamEvent['type']) ? event.type as StreamEvent['type'] : 'data',
+        rpc,
+        violations: Array.isArray(event.violations) ? event.violations : undefined,
+        eventName: typeof event.eventName === 'string' ? event.eventName : undefined,
+        lastEventId: typeof event.lastEventId === 'string' ? event.lastEventId : undefined,
+        retry: typeof event.retry === 'number' ? event.retry : undefined,
+        marker: event.marker === 'reconnect' || event.marker === 'resumed' ? event.marker : undefined
+      };
+    })
+  };
+}
+
+/**
+ * Combines sessions imported from a folder into one, ordered by when each
+ * capture started. The request config is taken from the earliest.
+ */
+export function mergeSessions(sessions: ImportedSession[]): ImportedSession {
+  const startOf = (session: ImportedSession) => Date.parse(session.events[0]?.timestamp ?? session.exportedAt);
+  const ordered = [...sessions].sort((a, b) => startOf(a) - startOf(b));
+  return {
+    sources: ordered.flatMap(session => session.sources),
+    exportedAt: ordered[ordered.length - 1].exportedAt,
+    request: ordered[0].request,
+    events: ordered.flatMap(session => session.events)
+  };
+}
+
+/**
+ * Milliseconds to wait before each event when replaying at `speed` times the
+ * original pace. Gaps longer than `maxGapMs` (measured before speeding up)
+ * are shortened to it, e.g. the idle time between two captured sessions.
+ */
+export function replayDelays(events: StreamEvent[], speed: number, maxGapMs = Infinity): number[] {
+  let previous: number | null = null;
+  return events.map(event => {
+    const time = Date.parse(event.timestamp);
+    const gap = previous === null || Number.isNaN(time) ? 0 : Math.max(0, time - previous);
+    if (!Number.isNaN(time)) previous = time;
+    return Math.min(gap, maxGapMs) / speed;
+  });
+}
+
+/**
+ * The messages of a session keyed by direction and method, e.g.
+ * "response tools/list" or "request tools/call (2)", so two captures of the
+ * same workflow line up in a diff even when one made extra calls.
+ * Connection and info events are left out; they mostly differ in timing.
+ */
+export function sessionMessages(events: StreamEvent[]): Record<string, unknown> {
+  const messages: Record<string, unknown> = {};
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.type === 'connection' || event.type === 'info') continue;
+    const rpc = event.rpc;
+    const name = rpc ? `${rpc.kind} ${rpc.method ?? `id ${String(rpc.id)}`}` : event.type;
+    const count = (counts.get(name) ?? 0) + 1;
+    counts.set(name, count);
+    messages[count > 1 ? `${name} (${count})` : name] = event.formatted ?? event.raw;
+  }
+  return messages;
+}
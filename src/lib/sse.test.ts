@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createSSEParser, SSEMessage } from "@/lib/sse";
+
+function collect() {
+  const events: SSEMessage[] = [];
+  const comments: string[] = [];
+  const parser = createSSEParser({
+    onEvent: message => events.push(message),
+    onComment: comment => comments.push(comment)
+  });
+  return { parser, events, comments };
+}
+
+describe("createSSEParser", () => {
+  it("dispatches an event on a blank line", () => {
+    const { parser, events } = collect();
+    parser.feed("data: hello\n\n");
+    expect(events).toEqual([{ event: "message", data: "hello", lastEventId: "", retry: undefined }]);
+  });
+
+  it("accepts CRLF and lone CR line endings", () => {
+    const { parser, events } = collect();
+    parser.feed("data: crlf\r\n\r\ndata: cr\r\rdata: lf\n\n");
+    expect(events.map(e => e.data)).toEqual(["crlf", "cr", "lf"]);
+  });
+
+  it("treats a CRLF split across chunks as one line ending", () => {
+    const { parser, events } = collect();
+    parser.feed("data: a\r");
+    parser.feed("\ndata: b\r");
+    parser.feed("\n\r");
+    parser.feed("\n");
+    expect(events.map(e => e.data)).toEqual(["a\nb"]);
+  });
+
+  it("reads data with no space after the colon", () => {
+    const { parser, events } = collect();
+    parser.feed("data:tight\n\ndata:  two spaces\n\n");
+    expect(events.map(e => e.data)).toEqual(["tight", " two spaces"]);
+  });
+
+  it("joins multi-line data with LF", () => {
+    const { parser, events } = collect();
+    parser.feed("data: first\ndata: second\ndata\n\n");
+    expect(events[0].data).toBe("first\nsecond\n");
+  });
+
+  it("reads the event, id and retry fields", () => {
+    const { parser, events } = collect();
+    parser.feed("event: update\nid: 7\nretry: 1500\ndata: x\n\n");
+    parser.feed("retry: soon\ndata: y\n\n");
+    expect(events).toEqual([
+      { event: "update", data: "x", lastEventId: "7", retry: 1500 },
+      // The ID persists across events and an invalid retry is ignored
+      { event: "message", data: "y", lastEventId: "7", retry: 1500 }
+    ]);
+  });
+
+  it("reports comment lines without dispatching them", () => {
+    const { parser, events, comments } = collect();
+    parser.feed(": keep-alive\n:raw\n\n");
+    expect(comments).toEqual(["keep-alive", "raw"]);
+    expect(events).toEqual([]);
+  });
+
+  it("strips a leading BOM only from the start of the stream", () => {
+    const { parser, events } = collect();
+    parser.feed("");
+    parser.feed("\uFEFFdata: a\n\n");
+    parser.feed("\uFEFFdata: b\n\n");
+    expect(events.map(e => e.data)).toEqual(["a"]);
+  });
+
+  it("assembles an event split across several feed calls", () => {
+    const { parser, events } = collect();
+    for (const chunk of ["ev", "ent: pi", "ng\nda", "ta: {\"a\"", ":1}", "\n", "\n"]) {
+      expect(events).toEqual([]);
+      parser.feed(chunk);
+    }
+    expect(events).toEqual([{ event: "ping", data: "{\"a\":1}", lastEventId: "", retry: undefined }]);
+  });
+
+  it("drops an unfinished event at end of stream", () => {
+    const { parser, events } = collect();
+    parser.feed("data: complete\n\nevent: partial\ndata: unfinished\n");
+    parser.reset();
+    parser.feed("\n");
+    expect(events.map(e => e.data)).toEqual(["complete"]);
+  });
+});
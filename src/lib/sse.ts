@@ -0,0 +1,135 @@
+// Incremental parser for the text/event-stream format, following
+// https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+
+export interface SSEMessage {
+  /** Event type, "message" when the server did not name one. */
+  event: string;
+  data: string;
+  /** Last event ID at dispatch time; persists across events like EventSource does. */
+  lastEventId: string;
+  /** Most recent reconnection time in milliseconds sent via a retry field, if any. */
+  retry?: number;
+}
+
+export interface SSEParserHandlers {
+  onEvent: (message: SSEMessage) => void;
+  onComment?: (comment: string) => void;
+}
+
+export interface SSEParser {
+  /** Feeds decoded text; events are dispatched as soon as their blank line arrives. */
+  feed: (chunk: string) => void;
+  /** Drops a partially received event, as the spec requires at end of stream. */
+  reset: () => void;
+}
+
+export function createSSEParser(handlers: SSEParserHandlers): SSEParser {
+  let buffer = "";
+  let firstChunk = true;
+  // A CR at the end of a chunk may be the first half of a CRLF
+  let pendingCR = false;
+
+  let eventType = "";
+  let data = "";
+  let hasData = false;
+  let lastEventId = "";
+  let retry: number | undefined;
+
+  function dispatch() {
+    if (!hasData) {
+      eventType = "";
+      return;
+    }
+    handlers.onEvent({
+      event: eventType || "message",
+      // Same as the spec appending LF per data line and stripping the final one
+      data,
+      lastEventId,
+      retry
+    });
+    eventType = "";
+    data = "";
+    hasData = false;
+  }
+
+  function processField(field: string, value: string) {
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        data = hasData ? `${data}\n${value}` : value;
+        hasData = true;
+        break;
+      case "id":
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  function processLine(line: string) {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) {
+      handlers.onComment?.(line.substring(1).replace(/^ /, ""));
+      return;
+    }
+
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      processField(line, "");
+      return;
+    }
+    let value = line.substring(colon + 1);
+    if (value.startsWith(" ")) value = value.substring(1);
+    processField(line.substring(0, colon), value);
+  }
+
+  function feed(chunk: string) {
+    if (firstChunk) {
+      if (chunk.length === 0) return;
+      firstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.substring(1);
+    }
+    if (pendingCR && chunk.startsWith("\n")) {
+      chunk = chunk.substring(1);
+    }
+    pendingCR = false;
+
+    buffer += chunk;
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== "\r" && char !== "\n") continue;
+
+      processLine(buffer.substring(start, i));
+      if (char === "\r") {
+        if (i + 1 === buffer.length) {
+          pendingCR = true;
+        } else if (buffer[i + 1] === "\n") {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+    buffer = buffer.substring(start);
+  }
+
+  function reset() {
+    buffer = "";
+    pendingCR = false;
+    eventType = "";
+    data = "";
+    hasData = false;
+  }
+
+  return { feed, reset };
+}
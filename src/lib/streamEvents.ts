@@ -0,0 +1,35 @@
+// Events shown in the response stream, shared by the page and the event list.
+
+import { SchemaViolation } from "@/lib/jsonSchema";
+import { JsonRpcError, JsonRpcId, Progress } from "@/lib/mcp";
+
+export type RpcStatus = 'pending' | 'result' | 'error' | 'timeout' | 'cancelled';
+
+// JSON-RPC details of an event; requests and responses point at each other
+export interface RpcInfo {
+  kind: 'request' | 'notification' | 'response';
+  method?: string;
+  id?: JsonRpcId;
+  status?: RpcStatus;
+  latencyMs?: number;
+  linkedEventId?: string;
+  error?: JsonRpcError;
+  progress?: Progress;
+}
+
+export interface StreamEvent {
+  id: string;
+  /** Local time of day shown on the event. */
+  time: string;
+  /** Full ISO time, kept for exports and replay timing. */
+  timestamp: string;
+  raw: string;
+  formatted?: unknown;
+  type: 'connection' | 'data' | 'error' | 'info' | 'request';
+  rpc?: RpcInfo;
+  violations?: SchemaViolation[];
+  eventName?: string;
+  lastEventId?: string;
+  retry?: number;
+  marker?: 'reconnect' | 'resumed';
+}
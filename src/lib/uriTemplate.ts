@@ -0,0 +1,63 @@
+// RFC 6570 URI templates, as used by MCP resource templates. Covers levels
+// 1-3 (all operators); prefix and explode modifiers are accepted and ignored.
+
+const EXPRESSION = /\{([+#./;?&]?)([^}]+)\}/g;
+
+interface Operator {
+  first: string;
+  separator: string;
+  named: boolean;
+  allowReserved: boolean;
+}
+
+const OPERATORS: Record<string, Operator> = {
+  '': { first: '', separator: ',', named: false, allowReserved: false },
+  '+': { first: '', separator: ',', named: false, allowReserved: true },
+  '#': { first: '#', separator: ',', named: false, allowReserved: true },
+  '.': { first: '.', separator: '.', named: false, allowReserved: false },
+  '/': { first: '/', separator: '/', named: false, allowReserved: false },
+  ';': { first: ';', separator: ';', named: true, allowReserved: false },
+  '?': { first: '?', separator: '&', named: true, allowReserved: false },
+  '&': { first: '&', separator: '&', named: true, allowReserved: false }
+};
+
+function variableName(spec: string): string {
+  return spec.replace(/(:\d+|\*)$/, '').trim();
+}
+
+/** Variable names in order of first appearance, e.g. ["owner", "repo", "path"]. */
+export function templateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(EXPRESSION)) {
+    for (const spec of match[2].split(',')) {
+      const name = variableName(spec);
+      if (name && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+function encode(value: string, allowReserved: boolean): string {
+  return allowReserved
+    ? encodeURI(value).replace(/%25([0-9A-Fa-f]{2})/g, '%$1')
+    : encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** Expands a template; variables left empty are omitted as the RFC prescribes. */
+export function expandTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(EXPRESSION, (_, operatorChar: string, specs: string) => {
+    const operator = OPERATORS[operatorChar];
+    const parts: string[] = [];
+
+    for (const spec of specs.split(',')) {
+      const name = variableName(spec);
+      const value = values[name];
+      if (value === undefined || value === '') continue;
+
+      const encoded = encode(value, operator.allowReserved);
+      parts.push(operator.named ? `${name}=${encoded}` : encoded);
+    }
+
+    return parts.length > 0 ? operator.first + parts.join(operator.separator) : '';
+  });
+}
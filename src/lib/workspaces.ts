@@ -0,0 +1,91 @@
+/**
+ * Workspace tabs, each an independent connection with its own settings under
+ * its own localStorage key. The tab list and split view are stored separately.
+ */
+
+import { createId } from "@/lib/collections";
+
+export const WORKSPACES_KEY = 'mcp-online-workspaces';
+// The first workspace keeps the settings key from before there were tabs
+export const DEFAULT_WORKSPACE_ID = 'default';
+const SETTINGS_KEY = 'mcp-online-settings';
+
+export interface WorkspaceTab {
+  id: string;
+  /** Empty until renamed; the tab then shows the server host. */
+  name: string;
+}
+
+export interface WorkspaceLayout {
+  tabs: WorkspaceTab[];
+  activeId: string;
+  /** Tab shown next to the active one, or null without a split view. */
+  splitId: string | null;
+}
+
+const DEFAULT_LAYOUT: WorkspaceLayout = {
+  tabs: [{ id: DEFAULT_WORKSPACE_ID, name: '' }],
+  activeId: DEFAULT_WORKSPACE_ID,
+  splitId: null
+};
+
+export function settingsKey(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? SETTINGS_KEY : `${SETTINGS_KEY}-${workspaceId}`;
+}
+
+export function createWorkspace(): WorkspaceTab {
+  return { id: createId(), name: '' };
+}
+
+const listeners = new Set<() => void>();
+
+/** For useSyncExternalStore: calls `listener` whenever the layout is saved. */
+export function subscribeLayout(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** The stored layout as text, so unchanged layouts compare equal between renders. */
+export function readLayout(): string | null {
+  try {
+    return localStorage.getItem(WORKSPACES_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Parses a stored layout, falling back to a single default tab for anything malformed. */
+export function parseLayout(text: string | null): WorkspaceLayout {
+  if (!text) return DEFAULT_LAYOUT;
+  try {
+    const value = JSON.parse(text) as Partial<WorkspaceLayout>;
+    const tabs = (Array.isArray(value.tabs) ? value.tabs : [])
+      .filter((tab): tab is WorkspaceTab => typeof tab?.id === 'string' && tab.id !== '')
+      .map(tab => ({ id: tab.id, name: typeof tab.name === 'string' ? tab.name : '' }));
+    if (tabs.length === 0) return DEFAULT_LAYOUT;
+    const ids = tabs.map(tab => tab.id);
+    const activeId = typeof value.activeId === 'string' && ids.includes(value.activeId) ? value.activeId : ids[0];
+    const splitId = typeof value.splitId === 'string' && ids.includes(value.splitId) && value.splitId !== activeId ? value.splitId : null;
+    return { tabs, activeId, splitId };
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+}
+
+export function saveLayout(layout: WorkspaceLayout) {
+  try {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(layout));
+  } catch (error) {
+    console.warn('Failed to save workspaces to localStorage:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/** Drops the settings of a closed workspace. */
+export function removeWorkspaceSettings(workspaceId: string) {
+  try {
+    localStorage.removeItem(settingsKey(workspaceId));
+  } catch (error) {
+    console.warn('Failed to remove workspace settings from localStorage:', error);
+  }
+}